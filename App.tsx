@@ -1,9 +1,34 @@
-import React, { useState, useEffect } from 'react';
-import { analyzeSingleTweet, generateAndAnalyzeTopic, explainNLPConcept, hasValidKey, AIProvider } from './services/geminiService';
-import { TweetData, SentimentType } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { analyzeSingleTweet, analyzeTweets, compareProviders, generateAndAnalyzeTopic, explainNLPConcept, hasValidKey, AIProvider, DEMO_PROVIDER, MAX_GENERATED_TWEETS } from './services/geminiService';
+import { parseDatasetFile, mapRowsToTweets, splitTopics } from './services/datasetService';
+import { buildTopicSummary, buildTopicSummaries, buildLanguageBreakdown, buildReviewSummary } from './services/analyticsService';
+import { DEFAULT_TWEET_FILTERS, filterTweets, sortTweets } from './services/tweetFilterService';
+import { saveSession, getSession, listSessions, renameSession, deleteSession, saveEvaluation, listEvaluations, deleteEvaluation } from './services/historyService';
+import { evaluatePredictions } from './services/evaluationService';
+import { BENCHMARK_NAME, getBenchmarkTweets } from './services/benchmarkDataset';
+import { getProvider, listProviders, ProviderAccent } from './services/providers';
+import { getSettings, saveSettings, setApiKey, getTaxonomy } from './services/settingsService';
+import { labelSeries, analysisLabel } from './services/taxonomyService';
+import { TweetData, DateRange, ColumnMapping, ParsedDataset, BatchProgress, AnalysisSession, DatasetSource, SessionSummary, EvaluationRun, ComparisonResult, CacheStats, SyntheticConfig, RuntimeSettings, TweetFilters, TweetSortKey, HumanReview } from './types';
 import { TweetCard } from './components/TweetCard';
-import { SentimentDistributionChart, KeywordBarChart } from './components/Charts';
-import { Twitter, Search, BarChart3, BookOpen, RefreshCw, Sparkles, Terminal, AlertTriangle, Settings, ExternalLink, PlayCircle, RefreshCcw, Cpu } from 'lucide-react';
+import { SentimentDistributionChart, SentimentTrendChart, AspectSentimentChart, EmotionRadarChart } from './components/Charts';
+import { DatasetImportPanel } from './components/DatasetImportPanel';
+import { BatchProgressBar } from './components/BatchProgressBar';
+import { ExportMenu } from './components/ExportMenu';
+import { HistoryPanel } from './components/HistoryPanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { EvaluationPanel } from './components/EvaluationPanel';
+import { ComparisonPanel } from './components/ComparisonPanel';
+import { TopicComparisonView } from './components/TopicComparisonView';
+import { LanguageBreakdown } from './components/LanguageBreakdown';
+import { KeywordInsights } from './components/KeywordInsights';
+import { TweetFilterBar } from './components/TweetFilterBar';
+import { VirtualList } from './components/VirtualList';
+import { CacheStatus } from './components/CacheStatus';
+import { SyntheticSettings } from './components/SyntheticSettings';
+import { DEFAULT_SYNTHETIC_CONFIG } from './services/offline/synthetic';
+import { getCacheStats, clearResponseCache } from './services/cacheService';
+import { Twitter, Search, BarChart3, BookOpen, RefreshCw, Sparkles, Terminal, AlertTriangle, Settings, ExternalLink, PlayCircle, Cpu, Upload, Server, WifiOff, History, Target, GitCompare, UserCheck } from 'lucide-react';
 
 // Common NLP terms to explain, mimicking a notebook curriculum
 const NLP_CONCEPTS = [
@@ -15,8 +40,66 @@ const NLP_CONCEPTS = [
   "Sentiment Polarity"
 ];
 
+// Tailwind classes per provider accent (full class names so the Tailwind CDN picks them up)
+const ACCENT_THEMES: Record<ProviderAccent, {
+  icon: React.ElementType;
+  toggle: string;
+  badge: string;
+  button: string;
+  spinner: string;
+  panel: string;
+  heading: string;
+  body: string;
+  row: string;
+}> = {
+  blue: {
+    icon: Sparkles,
+    toggle: 'text-blue-600',
+    badge: 'bg-blue-50 text-blue-700 border-blue-200',
+    button: 'bg-blue-600 hover:bg-blue-700',
+    spinner: 'text-blue-500',
+    panel: 'bg-blue-50 border-blue-100',
+    heading: 'text-blue-900',
+    body: 'text-blue-800',
+    row: 'text-blue-700 border-blue-200',
+  },
+  orange: {
+    icon: Cpu,
+    toggle: 'text-orange-600',
+    badge: 'bg-orange-50 text-orange-700 border-orange-200',
+    button: 'bg-orange-600 hover:bg-orange-700',
+    spinner: 'text-orange-500',
+    panel: 'bg-orange-50 border-orange-100',
+    heading: 'text-orange-900',
+    body: 'text-orange-800',
+    row: 'text-orange-700 border-orange-200',
+  },
+  emerald: {
+    icon: Server,
+    toggle: 'text-emerald-600',
+    badge: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+    button: 'bg-emerald-600 hover:bg-emerald-700',
+    spinner: 'text-emerald-500',
+    panel: 'bg-emerald-50 border-emerald-100',
+    heading: 'text-emerald-900',
+    body: 'text-emerald-800',
+    row: 'text-emerald-700 border-emerald-200',
+  },
+  violet: {
+    icon: WifiOff,
+    toggle: 'text-violet-600',
+    badge: 'bg-violet-50 text-violet-700 border-violet-200',
+    button: 'bg-violet-600 hover:bg-violet-700',
+    spinner: 'text-violet-500',
+    panel: 'bg-violet-50 border-violet-100',
+    heading: 'text-violet-900',
+    body: 'text-violet-800',
+    row: 'text-violet-700 border-violet-200',
+  },
+};
+
 function App() {
-  const [mode, setMode] = useState<'live' | 'dataset' | 'learn'>('dataset');
+  const [mode, setMode] = useState<'live' | 'dataset' | 'compare' | 'evaluate' | 'learn'>('dataset');
   const [provider, setProvider] = useState<AIProvider>('groq');
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -25,6 +108,31 @@ function App() {
   const [error, setError] = useState<string | null>(null);
   const [showConfigWarning, setShowConfigWarning] = useState(false);
   const [isDemoMode, setIsDemoMode] = useState(false);
+  const [importedDataset, setImportedDataset] = useState<ParsedDataset | null>(null);
+  // The dataset run currently on the dashboard (also persisted to history)
+  const [activeSession, setActiveSession] = useState<AnalysisSession | null>(null);
+  const [languageFilter, setLanguageFilter] = useState<string | null>(null);
+  // Narrow and order the tweet feed only, so the charts and keyword rankings stay put
+  const [tweetFilters, setTweetFilters] = useState<TweetFilters>(DEFAULT_TWEET_FILTERS);
+  const [tweetSort, setTweetSort] = useState<TweetSortKey>('arrival');
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [evaluations, setEvaluations] = useState<EvaluationRun[]>([]);
+  const [activeEvaluation, setActiveEvaluation] = useState<EvaluationRun | null>(null);
+  // Providers used side by side in Compare mode
+  const [compareIds, setCompareIds] = useState<AIProvider[]>(['gemini', 'groq']);
+  const [comparison, setComparison] = useState<ComparisonResult | null>(null);
+  // Optional date range (YYYY-MM-DD) to spread generated tweets across
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [datasetSize, setDatasetSize] = useState(15); // Generated tweets per topic
+  const [syntheticConfig, setSyntheticConfig] = useState<SyntheticConfig>(DEFAULT_SYNTHETIC_CONFIG);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const [settings, setSettings] = useState<RuntimeSettings>(getSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Initial load check
   useEffect(() => {
@@ -36,6 +144,17 @@ function App() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Load saved sessions for the history panel and past evaluation runs
+  useEffect(() => {
+    refreshSessions();
+    refreshEvaluations();
+  }, []);
+
+  // Refresh the cache readout whenever a run finishes
+  useEffect(() => {
+    if (!isLoading) refreshCacheStats();
+  }, [isLoading]);
+
   // Check key when provider changes
   useEffect(() => {
     if (!isDemoMode && !hasValidKey(provider)) {
@@ -43,10 +162,263 @@ function App() {
     } else {
       setShowConfigWarning(false);
     }
-  }, [provider, isDemoMode]);
+  }, [provider, isDemoMode, settings]);
+
+  const refreshSessions = () => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => console.warn("Could not load session history", err));
+  };
+
+  const refreshEvaluations = () => {
+    listEvaluations()
+      .then(setEvaluations)
+      .catch(err => console.warn("Could not load evaluation runs", err));
+  };
+
+  const refreshCacheStats = () => {
+    getCacheStats().then(setCacheStats);
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await clearResponseCache();
+    } catch (err: any) {
+      setError(`Could not clear the response cache: ${err.message}`);
+    }
+    refreshCacheStats();
+  };
+
+  // Keys go to session storage, everything else to local storage; labels re-read the model on render
+  const handleSaveSettings = (next: RuntimeSettings, apiKeys: Record<string, string>) => {
+    saveSettings(next);
+    Object.entries(apiKeys).forEach(([id, key]) => setApiKey(id, key));
+    // A label filter may name a label the new taxonomy no longer has
+    if (next.taxonomy !== settings.taxonomy) setTweetFilters(filters => ({ ...filters, label: null }));
+    setSettings(next);
+    setShowSettings(false);
+  };
+
+  const handleRunError = (err: any) => {
+    console.error("Analysis failed", err);
+    if (err.message === "API_KEY_MISSING") {
+      setShowConfigWarning(true);
+    } else {
+      setError(err.message || "Something went wrong with the AI service.");
+    }
+  };
+
+  /**
+   * Shows a finished dataset run and saves it to history.
+   */
+  const completeDatasetRun = async (source: DatasetSource, results: TweetData[], usingDemo: boolean) => {
+    const runProvider = getProvider(usingDemo ? DEMO_PROVIDER : provider);
+    const session: AnalysisSession = {
+      id: crypto.randomUUID(),
+      name: source.kind === 'file' ? source.name : `"${source.name}"`,
+      source,
+      provider: runProvider.id,
+      model: runProvider.getModel(),
+      createdAt: new Date().toISOString(),
+      tweets: results
+    };
+    setTweets(results);
+    setActiveSession(session);
+    setLanguageFilter(null);
+    setTweetFilters(DEFAULT_TWEET_FILTERS);
+
+    try {
+      await saveSession(session);
+      refreshSessions();
+    } catch (err) {
+      console.warn("Could not save session to history", err);
+    }
+  };
+
+  /**
+   * Generates and analyzes a dataset per topic, streaming tweets onto the dashboard as they
+   * arrive. Several topics ("A vs B, C") run one after another; a topic that fails or stops
+   * short is reported without discarding the others.
+   */
+  const runTopic = async (input: string, usingDemo: boolean) => {
+    const topics = splitTopics(input);
+    if (topics.length === 0) return;
+
+    const total = topics.length * datasetSize;
+    setIsLoading(true);
+    setError(null);
+    setTweets([]); // Clear previous
+    setActiveSession(null);
+    setLanguageFilter(null);
+    setTweetFilters(DEFAULT_TWEET_FILTERS);
+    setBatchProgress({ total, done: 0, failed: 0 });
+
+    try {
+      // Dataset mode: Simulate fetching and processing a batch
+      const dateRange: DateRange | undefined = dateFrom && dateTo
+        ? { start: new Date(`${dateFrom}T00:00:00`).toISOString(), end: new Date(`${dateTo}T23:59:59`).toISOString() }
+        : undefined;
+
+      const results: TweetData[] = [];
+      const failures: string[] = [];
+      const shortfalls: string[] = []; // Topics that stopped generating part-way
+      let missing = 0; // Tweets of failed or cut-short topics, counted as failed in the progress bar
+      const showTweets = (shown: TweetData[]) => {
+        setTweets(shown);
+        const failed = shown.filter(t => t.error).length;
+        setBatchProgress({ total, done: shown.length - failed, failed: failed + missing });
+      };
+
+      for (const topic of topics) {
+        try {
+          const generated = await generateAndAnalyzeTopic(topic, datasetSize, usingDemo, provider, {
+            dateRange,
+            synthetic: syntheticConfig,
+            onTweets: streamed => showTweets([...results, ...streamed])
+          });
+          results.push(...generated.tweets);
+          missing += datasetSize - generated.tweets.length;
+          if (generated.error) shortfalls.push(`${topic} stopped after ${generated.tweets.length} of ${generated.tweets.length + generated.missing} tweets (${generated.error})`);
+        } catch (err: any) {
+          if (topics.length === 1 || err.message === "API_KEY_MISSING") throw err;
+          failures.push(`${topic} (${err.message})`);
+          missing += datasetSize;
+        }
+        showTweets([...results]);
+      }
+
+      if (results.length === 0) throw new Error(`Generation failed for every topic: ${failures.join('; ')}`);
+      await completeDatasetRun({ kind: 'topic', name: topics.join(' vs ') }, results, usingDemo);
+      const problems = [
+        ...(failures.length > 0 ? [`Some topics could not be generated: ${failures.join('; ')}`] : []),
+        ...shortfalls
+      ];
+      if (problems.length > 0) setError(problems.join('. '));
+    } catch (err: any) {
+      handleRunError(err);
+    } finally {
+      setIsLoading(false);
+      setBatchProgress(null);
+    }
+  };
+
+  const runTweetBatch = async (batch: TweetData[], source: DatasetSource, concurrency: number) => {
+    setIsLoading(true);
+    setError(null);
+    setTweets([]);
+    setBatchProgress({ total: batch.length, done: 0, failed: 0 });
+
+    try {
+      const analyzed = await analyzeTweets(batch, isDemoMode, provider, {
+        concurrency,
+        bypassCache,
+        onProgress: setBatchProgress
+      });
+      await completeDatasetRun(source, analyzed, isDemoMode);
+      setImportedDataset(null);
+    } catch (err: any) {
+      handleRunError(err);
+    } finally {
+      setIsLoading(false);
+      setBatchProgress(null);
+    }
+  };
+
+  /**
+   * Analyzes labeled tweets with the selected provider, scores them against their gold labels
+   * and saves the report so providers can be compared over time.
+   */
+  const runEvaluation = async (batch: TweetData[], datasetName: string, concurrency: number) => {
+    if (!hasValidKey(provider) && !isDemoMode) {
+      setShowConfigWarning(true);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setBatchProgress({ total: batch.length, done: 0, failed: 0 });
+
+    try {
+      const analyzed = await analyzeTweets(batch, isDemoMode, provider, {
+        concurrency,
+        bypassCache,
+        onProgress: setBatchProgress
+      });
+      const runProvider = getProvider(isDemoMode ? DEMO_PROVIDER : provider);
+      const run: EvaluationRun = {
+        id: crypto.randomUUID(),
+        datasetName,
+        provider: runProvider.id,
+        model: runProvider.getModel(),
+        createdAt: new Date().toISOString(),
+        report: evaluatePredictions(analyzed)
+      };
+      setActiveEvaluation(run);
+      setImportedDataset(null);
+
+      try {
+        await saveEvaluation(run);
+        refreshEvaluations();
+      } catch (err) {
+        console.warn("Could not save evaluation run", err);
+      }
+    } catch (err: any) {
+      handleRunError(err);
+    } finally {
+      setIsLoading(false);
+      setBatchProgress(null);
+    }
+  };
+
+  /**
+   * Runs the same tweets through every provider selected for comparison.
+   */
+  const runComparison = async (batch: TweetData[], concurrency: number) => {
+    const missingKeys = compareIds.filter(id => !hasValidKey(id));
+    if (missingKeys.length > 0) {
+      setError(`Missing API key for: ${missingKeys.map(id => getProvider(id).label).join(', ')}.`);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setComparison(null);
+    setBatchProgress({ total: batch.length * compareIds.length, done: 0, failed: 0 });
+
+    try {
+      setComparison(await compareProviders(batch, compareIds, { concurrency, bypassCache, onProgress: setBatchProgress }));
+      setImportedDataset(null);
+    } catch (err: any) {
+      handleRunError(err);
+    } finally {
+      setIsLoading(false);
+      setBatchProgress(null);
+    }
+  };
+
+  const toggleCompareProvider = (id: AIProvider) => {
+    setCompareIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+  };
+
+  const handleDeleteEvaluation = async (id: string) => {
+    try {
+      await deleteEvaluation(id);
+      if (activeEvaluation?.id === id) setActiveEvaluation(null);
+      refreshEvaluations();
+    } catch (err: any) {
+      setError(`Could not delete evaluation: ${err.message}`);
+    }
+  };
 
   const handleAnalyze = async (forceDemo?: boolean) => {
     const usingDemo = forceDemo ?? isDemoMode;
+
+    // Compare mode checks the keys of every selected provider itself
+    if (mode === 'compare') {
+      if (!inputValue.trim()) return;
+      await runComparison([{ id: crypto.randomUUID(), text: inputValue, author: '@currentUser', timestamp: new Date().toISOString() }], 4);
+      return;
+    }
     
     if (!hasValidKey(provider) && !usingDemo) {
       setShowConfigWarning(true);
@@ -54,32 +426,168 @@ function App() {
     }
     
     if (!inputValue.trim()) return;
+
+    if (mode === 'dataset') {
+      await runTopic(inputValue, usingDemo);
+      return;
+    }
     
     setIsLoading(true);
     setError(null);
     setTweets([]); // Clear previous
+    setActiveSession(null);
 
     try {
-      if (mode === 'live') {
-        const tweet = await analyzeSingleTweet(inputValue, usingDemo, provider);
-        setTweets([tweet]);
-      } else {
-        // Dataset mode: Simulate fetching and processing a batch
-        const batch = await generateAndAnalyzeTopic(inputValue, 15, usingDemo, provider);
-        setTweets(batch);
-      }
+      const tweet = await analyzeSingleTweet(inputValue, usingDemo, provider, { bypassCache });
+      setTweets([tweet]);
     } catch (err: any) {
-      console.error("Analysis failed", err);
-      if (err.message === "API_KEY_MISSING") {
-        setShowConfigWarning(true);
-      } else {
-        setError(err.message || "Something went wrong with the AI service.");
-      }
+      handleRunError(err);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    setError(null);
+    try {
+      setImportedDataset(await parseDatasetFile(file));
+    } catch (err: any) {
+      setError(`Could not read ${file.name}: ${err.message}`);
+    }
+  };
+
+  const handleAnalyzeImport = async (mapping: ColumnMapping, limit: number, concurrency: number) => {
+    if (!importedDataset) return;
+
+    if (mode !== 'compare' && !hasValidKey(provider) && !isDemoMode) {
+      setShowConfigWarning(true);
+      return;
+    }
+
+    if (mode === 'evaluate' && !mapping.label) {
+      setError("Choose the gold label column to evaluate against.");
+      return;
+    }
+
+    const imported = mapRowsToTweets(importedDataset.rows, mapping)
+      .filter(t => mode !== 'evaluate' || t.goldLabel)
+      .slice(0, limit);
+    if (imported.length === 0) {
+      setError(mode === 'evaluate'
+        ? "No rows with both tweet text and a recognizable gold label were found."
+        : "No rows with tweet text were found in the selected column.");
+      return;
+    }
+
+    if (mode === 'evaluate') {
+      await runEvaluation(imported, importedDataset.fileName, concurrency);
+      return;
+    }
+
+    if (mode === 'compare') {
+      await runComparison(imported, concurrency);
+      return;
+    }
+
+    await runTweetBatch(imported, { kind: 'file', name: importedDataset.fileName }, concurrency);
+  };
+
+  // --- History actions ---
+
+  const handleOpenSession = async (id: string) => {
+    try {
+      const session = await getSession(id);
+      if (!session) return;
+      setMode('dataset');
+      setError(null);
+      setTweets(session.tweets);
+      setActiveSession(session);
+      setLanguageFilter(null);
+      setTweetFilters(DEFAULT_TWEET_FILTERS);
+    } catch (err: any) {
+      setError(`Could not open session: ${err.message}`);
+    }
+  };
+
+  const handleRerunSession = async (id: string) => {
+    if (!hasValidKey(provider) && !isDemoMode) {
+      setShowConfigWarning(true);
+      return;
+    }
+
+    // The runs below report their own errors; only loading the session needs handling here
+    let session: AnalysisSession | undefined;
+    try {
+      session = await getSession(id);
+    } catch (err: any) {
+      setError(`Could not open session: ${err.message}`);
+      return;
+    }
+    if (!session) return;
+    setMode('dataset');
+
+    if (session.source.kind === 'topic') {
+      setInputValue(session.source.name);
+      await runTopic(session.source.name, isDemoMode);
+    } else {
+      // Re-analyze the stored tweets from scratch
+      const fresh = session.tweets.map(({ analysis, error, ...tweet }) => tweet);
+      await runTweetBatch(fresh, session.source, 4);
+    }
+  };
+
+  /**
+   * Records (or, without a review, removes) a reviewer's label on one tweet and saves it
+   * with the session, so corrections survive reloads and re-analysis.
+   */
+  const handleReviewTweet = async (tweetId: string, review?: HumanReview) => {
+    const updated = tweets.map(tweet => {
+      if (tweet.id !== tweetId) return tweet;
+      const { review: _previous, ...rest } = tweet;
+      return review ? { ...rest, review } : rest;
+    });
+    setTweets(updated);
+    if (!activeSession) return;
+
+    const session = { ...activeSession, tweets: updated };
+    setActiveSession(session);
+    try {
+      await saveSession(session);
+    } catch (err) {
+      console.warn("Could not save the review to history", err);
+    }
+  };
+
+  const handleRenameSession = async (id: string, name: string) => {
+    try {
+      await renameSession(id, name);
+      if (activeSession?.id === id) setActiveSession({ ...activeSession, name });
+      refreshSessions();
+    } catch (err: any) {
+      setError(`Could not rename session: ${err.message}`);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+      // Clear the open results too; a later relabel would otherwise save the deleted session again
+      if (activeSession?.id === id) {
+        setActiveSession(null);
+        setTweets([]);
+        setLanguageFilter(null);
+        setTweetFilters(DEFAULT_TWEET_FILTERS);
+      }
+      refreshSessions();
+    } catch (err: any) {
+      setError(`Could not delete session: ${err.message}`);
+    }
+  };
+
   const handleLearn = async (concept: string) => {
     if (!hasValidKey(provider) && !isDemoMode) {
       setShowConfigWarning(true);
@@ -110,12 +618,39 @@ function App() {
     }, 0);
   };
 
-  // Calculate aggregate stats
-  const totalTweets = tweets.length;
-  const positiveCount = tweets.filter(t => t.analysis?.sentiment === SentimentType.POSITIVE).length;
-  const negativeCount = tweets.filter(t => t.analysis?.sentiment === SentimentType.NEGATIVE).length;
-  const neutralCount = tweets.filter(t => t.analysis?.sentiment === SentimentType.NEUTRAL).length;
-  const posPct = totalTweets ? Math.round((positiveCount / totalTweets) * 100) : 0;
+  // The language breakdown covers the whole run; everything else follows the selected language.
+  // Aggregates are memoized on the tweets so typing in the filter bar does not recompute them
+  const languageBreakdown = useMemo(() => buildLanguageBreakdown(tweets), [tweets]);
+  const dashboardTweets = useMemo(
+    () => languageFilter ? tweets.filter(t => (t.analysis?.language || 'und') === languageFilter) : tweets,
+    [tweets, languageFilter]
+  );
+  const feedTweets = useMemo(
+    () => sortTweets(filterTweets(dashboardTweets, tweetFilters), tweetSort),
+    [dashboardTweets, tweetFilters, tweetSort]
+  );
+  // Calculate aggregate stats (tweets whose analysis failed are excluded)
+  const summaryTopic = activeSession?.source.name || inputValue;
+  const summary = useMemo(() => buildTopicSummary(summaryTopic, dashboardTweets), [summaryTopic, dashboardTweets]);
+  // More than one entry when the run covers several topics ("A vs B") or an imported topic column
+  const topicSummaries = useMemo(() => buildTopicSummaries(dashboardTweets, summary.topic), [dashboardTweets, summary.topic]);
+  const { totalTweets, positiveCount, sarcasticCount } = summary;
+  const failedCount = dashboardTweets.length - totalTweets;
+  const reviewSummary = useMemo(() => buildReviewSummary(dashboardTweets), [dashboardTweets]);
+  const sourceLabel = activeSession?.source.kind === 'file' ? `from ${activeSession.source.name}` : `about "${summary.topic}"`;
+  const activeProvider = getProvider(provider);
+  // What actually runs: Demo Mode sends everything through the offline classifier, whatever provider is selected
+  const pipelineProvider = isDemoMode ? getProvider(DEMO_PROVIDER) : activeProvider;
+  const theme = ACCENT_THEMES[activeProvider.accent];
+  const providerLabel = isDemoMode ? 'Demo Mode' : activeProvider.label;
+  // Dashboard labels describe the run being shown, which may be a saved session from another provider
+  const runModel = activeSession?.model ?? pipelineProvider.getModel();
+  const runLabel = activeSession ? `${activeSession.provider} / ${activeSession.model}` : providerLabel;
+  const progressLabel = mode === 'compare' ? compareIds.map(id => getProvider(id).label).join(' + ') : providerLabel;
+  // Share of the analyzed tweets; 0 when every tweet failed, so the summary bars never get NaN widths
+  const sharePct = (count: number) => (totalTweets ? (count / totalTweets) * 100 : 0);
+  const posPct = Math.round(sharePct(positiveCount));
+  const summaryLabels = labelSeries(getTaxonomy(), Object.keys(summary.labelCounts));
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 flex flex-col font-sans">
@@ -130,18 +665,19 @@ function App() {
             
             {/* Provider Selector */}
             <div className="flex items-center bg-slate-100 rounded-lg p-1 ml-4 border border-slate-200">
-              <button 
-                onClick={() => setProvider('gemini')}
-                className={`px-3 py-1 text-xs font-semibold rounded-md transition-all flex items-center gap-1 ${provider === 'gemini' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
-              >
-                <Sparkles size={14} /> Gemini
-              </button>
-              <button 
-                onClick={() => setProvider('groq')}
-                className={`px-3 py-1 text-xs font-semibold rounded-md transition-all flex items-center gap-1 ${provider === 'groq' ? 'bg-white text-orange-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
-              >
-                <Cpu size={14} /> Groq
-              </button>
+              {listProviders().map(p => {
+                const ProviderIcon = ACCENT_THEMES[p.accent].icon;
+                return (
+                  <button
+                    key={p.id}
+                    onClick={() => setProvider(p.id)}
+                    title={p.getModel()}
+                    className={`px-3 py-1 text-xs font-semibold rounded-md transition-all flex items-center gap-1 whitespace-nowrap ${provider === p.id ? `bg-white ${ACCENT_THEMES[p.accent].toggle} shadow-sm` : 'text-slate-500 hover:text-slate-700'}`}
+                  >
+                    <ProviderIcon size={14} /> {p.label}
+                  </button>
+                );
+              })}
             </div>
 
             {isDemoMode && (
@@ -155,6 +691,8 @@ function App() {
             {[
               { id: 'dataset', label: 'Dataset', icon: BarChart3 },
               { id: 'live', label: 'Live Check', icon: Search },
+              { id: 'compare', label: 'Compare', icon: GitCompare },
+              { id: 'evaluate', label: 'Evaluate', icon: Target },
               { id: 'learn', label: 'Concepts', icon: BookOpen },
             ].map((item) => (
               <button
@@ -170,10 +708,51 @@ function App() {
                 {item.label}
               </button>
             ))}
+            <button
+              onClick={() => { setShowHistory(!showHistory); setShowSettings(false); }}
+              className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-medium transition-all ${
+                showHistory ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              <History size={16} />
+              History
+              {sessions.length > 0 && <span className="text-xs text-slate-400">{sessions.length}</span>}
+            </button>
+            <button
+              onClick={() => { setShowSettings(!showSettings); setShowHistory(false); }}
+              title="Models, API keys and request settings"
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                showSettings ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              <Settings size={16} />
+            </button>
           </nav>
         </div>
       </header>
 
+      {showHistory && (
+        <HistoryPanel
+          sessions={sessions}
+          activeSessionId={activeSession?.id}
+          disabled={isLoading}
+          onOpen={handleOpenSession}
+          onRename={handleRenameSession}
+          onDelete={handleDeleteSession}
+          onRerun={handleRerunSession}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsPanel
+          providers={listProviders()}
+          settings={settings}
+          onSave={handleSaveSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
       {/* Main Content Area */}
       <main className="flex-1 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 w-full">
         
@@ -186,44 +765,33 @@ function App() {
               </div>
               <div className="flex-1">
                 <h3 className="text-lg font-bold text-amber-900">
-                  {provider === 'gemini' ? 'Gemini' : 'Groq'} API Key Required
+                  {activeProvider.label} API Key Required
                 </h3>
                 <p className="text-amber-800 mt-1 mb-4">
-                  The application cannot detect your {provider === 'gemini' ? 'Gemini' : 'Groq'} API key. This is required for live analysis using the {provider} provider.
+                  {settings.transport === 'proxy' && activeProvider.requiresKey
+                    ? <>The API proxy has no {activeProvider.label} key. Set <code>{activeProvider.id.toUpperCase()}_API_KEY</code> in the server's environment and restart it, or switch to a direct connection in Settings.</>
+                    : <>Live analysis with {activeProvider.label} needs an API key. Enter it in Settings: it is kept in this tab's session storage only, never in the app bundle.</>}
                 </p>
-                
-                <div className="bg-white/50 rounded-lg p-4 border border-amber-200 mb-4">
-                  <p className="text-sm font-bold text-amber-900 mb-2 uppercase tracking-wide">Configuration Steps:</p>
-                  <ol className="list-decimal list-inside text-sm text-amber-800 space-y-2">
-                    <li>Go to Vercel Dashboard → Settings → Environment Variables.</li>
-                    <li>
-                      Add <code className="font-mono bg-amber-100 px-1 py-0.5 rounded">
-                        {provider === 'gemini' ? 'API_KEY' : 'GROQ_API_KEY'}
-                      </code> with your value.
-                    </li>
-                    <li className="font-bold text-amber-900">
-                      IMPORTANT: You must click "Redeploy" in Vercel for the key to take effect.
-                    </li>
-                  </ol>
-                </div>
 
                 <div className="flex flex-wrap gap-3">
-                   <a 
-                     href="https://vercel.com/dashboard" 
-                     target="_blank" 
-                     rel="noopener noreferrer"
+                   <button
+                     onClick={() => { setShowSettings(true); setShowHistory(false); }}
                      className="flex items-center gap-2 px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-lg font-medium transition-colors shadow-sm"
                    >
-                     <ExternalLink size={18} />
-                     Go to Vercel Dashboard
-                   </a>
-                   <button 
-                     onClick={() => window.location.reload()}
-                     className="flex items-center gap-2 px-4 py-2 bg-amber-100 hover:bg-amber-200 text-amber-800 rounded-lg font-medium transition-colors"
-                   >
-                     <RefreshCcw size={18} />
-                     Reload Page
+                     <Settings size={18} />
+                     Open Settings
                    </button>
+                   {activeProvider.keyUrl && (
+                     <a
+                       href={activeProvider.keyUrl}
+                       target="_blank"
+                       rel="noopener noreferrer"
+                       className="flex items-center gap-2 px-4 py-2 bg-amber-100 hover:bg-amber-200 text-amber-800 rounded-lg font-medium transition-colors"
+                     >
+                       <ExternalLink size={18} />
+                       Get a {activeProvider.label} key
+                     </a>
+                   )}
                    <button 
                      onClick={enableDemoMode}
                      className="flex items-center gap-2 px-4 py-2 bg-white border border-amber-300 hover:bg-amber-50 text-amber-800 rounded-lg font-medium transition-colors shadow-sm ml-auto"
@@ -250,60 +818,176 @@ function App() {
              <h2 className="text-2xl font-bold text-slate-800">
               {mode === 'dataset' && "Topic Sentiment Dashboard"}
               {mode === 'live' && "Real-time Tweet Analyzer"}
+              {mode === 'compare' && "Provider Comparison"}
+              {mode === 'evaluate' && "Model Evaluation"}
               {mode === 'learn' && "Interactive NLP Notebook"}
             </h2>
-            <span className={`px-2 py-1 rounded text-xs font-mono font-medium border ${
-              provider === 'gemini' 
-                ? 'bg-blue-50 text-blue-700 border-blue-200' 
-                : 'bg-orange-50 text-orange-700 border-orange-200'
-            }`}>
-              Powered by {provider === 'gemini' ? 'Gemini 2.5 Flash' : 'Groq Llama 3.1'}
+            <span className={`px-2 py-1 rounded text-xs font-mono font-medium border ${theme.badge}`}>
+              Powered by {pipelineProvider.label} · {pipelineProvider.getModel()}
             </span>
           </div>
           
           <p className="text-slate-500 max-w-3xl">
-            {mode === 'dataset' && "Simulates scraping and analyzing a dataset of tweets from Kaggle. Enter a topic below to generate a synthetic dataset and run the sentiment classification pipeline."}
+            {mode === 'dataset' && "Simulates scraping and analyzing a dataset of tweets from Kaggle. Enter a topic below (or several separated by 'vs' or commas to compare them) to generate a synthetic dataset, or import a real CSV, JSONL or JSON export, and run the sentiment classification pipeline."}
             {mode === 'live' && "Paste a tweet or type a sentence to run it through the sentiment classification model instantly."}
+            {mode === 'compare' && "Send the same tweet or dataset through several providers at once to see where they disagree and how well they agree overall (agreement rate and Cohen's kappa)."}
+            {mode === 'evaluate' && "Measure how accurate each provider really is: run a gold-labeled dataset and get accuracy, per-class precision/recall/F1, macro-F1 and a confusion matrix."}
             {mode === 'learn' && "Explore the fundamental concepts used in the 'Twitter Sentiment Analysis' Kaggle notebook, explained by AI."}
           </p>
+
+          {cacheStats && !isDemoMode && mode !== 'learn' && (
+            <CacheStatus
+              stats={cacheStats}
+              bypass={bypassCache}
+              disabled={isLoading}
+              onToggleBypass={setBypassCache}
+              onClear={handleClearCache}
+            />
+          )}
         </div>
 
-        {/* Input Section (Hidden for Learn mode) */}
-        {mode !== 'learn' && (
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.jsonl,.ndjson,.json"
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+
+        {/* Input Section (Dataset, Live and Compare modes) */}
+        {(mode === 'dataset' || mode === 'live' || mode === 'compare') && (
           <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-2 mb-8 flex gap-2">
             <input
               type="text"
               value={inputValue}
               onChange={(e) => setInputValue(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleAnalyze()}
-              placeholder={mode === 'dataset' ? "Enter a topic (e.g., 'Bitcoin', 'New Marvel Movie')" : "Paste tweet text here..."}
-              disabled={showConfigWarning && !isDemoMode}
+              placeholder={mode === 'dataset' ? "Enter a topic, or compare several (e.g., 'Bitcoin' or 'Nike vs Adidas vs Puma')" : "Paste tweet text here..."}
+              disabled={showConfigWarning && !isDemoMode && mode !== 'compare'}
               className="flex-1 px-4 py-3 bg-transparent outline-none text-slate-700 placeholder:text-slate-400 disabled:opacity-50"
             />
             <button
               onClick={() => handleAnalyze()}
-              disabled={(showConfigWarning && !isDemoMode) || isLoading}
-              className={`text-white px-6 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 disabled:opacity-70 disabled:cursor-not-allowed ${
-                provider === 'gemini' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-orange-600 hover:bg-orange-700'
-              }`}
+              disabled={(showConfigWarning && !isDemoMode && mode !== 'compare') || isLoading}
+              className={`text-white px-6 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 disabled:opacity-70 disabled:cursor-not-allowed ${theme.button}`}
             >
               {isLoading ? <RefreshCw className="animate-spin" size={18} /> : <Sparkles size={18} />}
-              {mode === 'dataset' ? 'Generate & Analyze' : 'Analyze'}
+              {mode === 'dataset' ? 'Generate & Analyze' : mode === 'compare' ? 'Compare' : 'Analyze'}
             </button>
+            {(mode === 'dataset' || mode === 'compare') && (
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isLoading}
+                title="Import a CSV, JSONL or JSON tweet export"
+                className="px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 disabled:opacity-70 disabled:cursor-not-allowed"
+              >
+                <Upload size={18} />
+                Import
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Size and date range of generated datasets */}
+        {mode === 'dataset' && (
+          <div className="flex flex-wrap items-center gap-2 -mt-6 mb-8 text-xs text-slate-500">
+            <span>Generate</span>
+            <input
+              type="number"
+              value={datasetSize}
+              min={1}
+              max={MAX_GENERATED_TWEETS}
+              step={5}
+              onChange={(e) => setDatasetSize(Math.min(MAX_GENERATED_TWEETS, Math.max(1, Number(e.target.value) || 1)))}
+              className="w-16 px-2 py-1 bg-white border border-slate-200 rounded-md text-slate-700"
+            />
+            <span>tweets per topic, spread from</span>
+            <input
+              type="date"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="px-2 py-1 bg-white border border-slate-200 rounded-md text-slate-700"
+            />
+            <span>to</span>
+            <input
+              type="date"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="px-2 py-1 bg-white border border-slate-200 rounded-md text-slate-700"
+            />
+            {(dateFrom || dateTo) && (
+              <button onClick={() => { setDateFrom(''); setDateTo(''); }} className="text-slate-400 hover:text-slate-600 underline">
+                clear
+              </button>
+            )}
+            {!(dateFrom && dateTo) && <span className="text-slate-400">(leave empty to timestamp them now)</span>}
           </div>
         )}
 
+        {/* Demo Mode datasets come from the seeded generator */}
+        {mode === 'dataset' && isDemoMode && (
+          <SyntheticSettings config={syntheticConfig} onChange={setSyntheticConfig} />
+        )}
+
+        {/* Providers to compare */}
+        {mode === 'compare' && (
+          <div className="flex flex-wrap items-center gap-2 -mt-6 mb-8 text-xs text-slate-500">
+            <span>Compare</span>
+            {listProviders().map(p => (
+              <button
+                key={p.id}
+                onClick={() => toggleCompareProvider(p.id)}
+                title={p.getModel()}
+                className={`px-2.5 py-1 rounded-md border font-medium transition-colors ${
+                  compareIds.includes(p.id) ? ACCENT_THEMES[p.accent].badge : 'bg-white border-slate-200 text-slate-400 hover:text-slate-600'
+                }`}
+              >
+                {p.label}
+              </button>
+            ))}
+            {compareIds.length < 2 && <span className="text-amber-600">Select at least two providers.</span>}
+            {activeSession && (
+              <button
+                onClick={() => runComparison(activeSession.tweets.map(({ analysis, error, ...tweet }) => tweet), 4)}
+                disabled={isLoading || compareIds.length < 2}
+                className="ml-auto px-2.5 py-1 rounded-md bg-slate-100 hover:bg-slate-200 text-slate-700 disabled:opacity-50"
+              >
+                Compare dashboard dataset ({activeSession.tweets.length} tweets)
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Imported Dataset Column Mapping */}
+        {(mode === 'dataset' || mode === 'compare' || mode === 'evaluate') && importedDataset && !isLoading && (
+          <DatasetImportPanel
+            key={importedDataset.fileName}
+            dataset={importedDataset}
+            disabled={mode === 'compare' ? compareIds.length < 2 : showConfigWarning && !isDemoMode}
+            onAnalyze={handleAnalyzeImport}
+            onCancel={() => setImportedDataset(null)}
+          />
+        )}
+
         {/* Loading State */}
-        {isLoading && (
+        {isLoading && batchProgress && (
+          <BatchProgressBar progress={batchProgress} providerLabel={progressLabel} />
+        )}
+        {isLoading && !batchProgress && (
           <div className="flex flex-col items-center justify-center py-20 text-slate-400">
-            <RefreshCw className={`animate-spin mb-4 ${provider === 'gemini' ? 'text-blue-500' : 'text-orange-500'}`} size={32} />
-            <p>Running NLP Pipeline via {provider === 'gemini' ? 'Gemini' : 'Groq'}...</p>
+            <RefreshCw className={`animate-spin mb-4 ${theme.spinner}`} size={32} />
+            <p>Running NLP Pipeline via {pipelineProvider.label}...</p>
             <p className="text-sm opacity-70">Tokenizing • Vectorizing • Classifying</p>
           </div>
         )}
 
-        {/* Results: Dashboard Mode */}
-        {!isLoading && mode === 'dataset' && tweets.length > 0 && (
+        {/* Results: Dashboard Mode (also shown while a generated dataset streams in) */}
+        {mode === 'dataset' && topicSummaries.length > 1 && (
+          <TopicComparisonView summaries={topicSummaries} />
+        )}
+        {mode === 'dataset' && tweets.length > 0 && (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Left Column: Stats & Charts */}
             <div className="lg:col-span-1 space-y-6">
@@ -315,29 +999,73 @@ function App() {
                   <span className="text-5xl" role="img" aria-label="emoji">
                     {posPct >= 70 ? '🤩' : posPct >= 50 ? '😃' : posPct >= 30 ? '😐' : '😒'}
                   </span>
-                  <span className="text-lg font-medium text-green-500 mb-2 ml-1">Positive</span>
+                  <span className="text-lg font-medium text-green-500 mb-2 ml-1" title="Share of tweets whose label has positive polarity">Positive</span>
                 </div>
-                <p className="text-sm text-slate-500">Based on {totalTweets} analyzed tweets about "{inputValue}".</p>
+                <p className="text-sm text-slate-500">
+                  Based on {totalTweets} analyzed tweets {sourceLabel}.
+                  {failedCount > 0 && <span className="text-red-500"> {failedCount} failed.</span>}
+                </p>
                 <div className="mt-4 flex gap-1 h-2 rounded-full overflow-hidden bg-slate-100">
-                  <div style={{ width: `${(positiveCount/totalTweets)*100}%` }} className="bg-green-500" />
-                  <div style={{ width: `${(neutralCount/totalTweets)*100}%` }} className="bg-slate-300" />
-                  <div style={{ width: `${(negativeCount/totalTweets)*100}%` }} className="bg-red-500" />
+                  {summaryLabels.map(({ name, color }) => (
+                    <div key={name} style={{ width: `${sharePct(summary.labelCounts[name])}%`, backgroundColor: color }} title={name} />
+                  ))}
                 </div>
-                <div className="flex justify-between mt-2 text-xs text-slate-400">
-                  <span>{positiveCount} Pos</span>
-                  <span>{neutralCount} Neu</span>
-                  <span>{negativeCount} Neg</span>
+                <div className="flex flex-wrap justify-between gap-x-3 mt-2 text-xs text-slate-400">
+                  {summaryLabels.map(({ name, color }) => (
+                    <span key={name} className="flex items-center gap-1">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+                      {summary.labelCounts[name]} {name}
+                    </span>
+                  ))}
                 </div>
+                {sarcasticCount > 0 && (
+                  <p className="mt-3 text-xs text-fuchsia-600" title="Counted by their intended sentiment, not the literal wording">
+                    🙃 {sarcasticCount} sarcastic {sarcasticCount === 1 ? 'tweet' : 'tweets'} detected
+                  </p>
+                )}
+                {reviewSummary.reviewed > 0 && (
+                  <p className="mt-3 text-xs text-indigo-600 flex items-center gap-1" title="Share of reviewed tweets where the human label matches the model's">
+                    <UserCheck size={14} /> {reviewSummary.reviewed} reviewed · model agrees on {Math.round(reviewSummary.agreement * 100)}%
+                    ({reviewSummary.reviewed - reviewSummary.agreed} corrected)
+                  </p>
+                )}
               </div>
 
+              {languageBreakdown.length > 1 && (
+                <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
+                  <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Languages</h3>
+                  <LanguageBreakdown rows={languageBreakdown} selected={languageFilter} onSelect={setLanguageFilter} />
+                </div>
+              )}
+
               {/* Charts */}
               <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
                 <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Distribution</h3>
-                <SentimentDistributionChart tweets={tweets} />
+                <SentimentDistributionChart
+                  tweets={dashboardTweets}
+                  selected={tweetFilters.label}
+                  onSelect={(label) => setTweetFilters({ ...tweetFilters, label })}
+                />
               </div>
               <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
-                <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Top Keywords</h3>
-                <KeywordBarChart tweets={tweets} />
+                <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Emotions</h3>
+                <EmotionRadarChart tweets={dashboardTweets} />
+              </div>
+              <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
+                <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Labels Over Time</h3>
+                <SentimentTrendChart key={activeSession?.id} tweets={dashboardTweets} />
+              </div>
+              <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
+                <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Keywords by Sentiment</h3>
+                <KeywordInsights
+                  tweets={dashboardTweets}
+                  selected={tweetFilters.keyword || null}
+                  onSelect={(keyword) => setTweetFilters({ ...tweetFilters, keyword: keyword || '' })}
+                />
+              </div>
+              <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
+                <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Aspect Polarity</h3>
+                <AspectSentimentChart tweets={dashboardTweets} />
               </div>
             </div>
 
@@ -345,42 +1073,78 @@ function App() {
             <div className="lg:col-span-2">
               <div className="flex items-center justify-between mb-4">
                 <h3 className="font-semibold text-slate-700">Analysed Tweets Stream</h3>
-                <span className="text-xs font-mono bg-slate-200 text-slate-600 px-2 py-1 rounded">
-                  Model: {provider === 'gemini' ? 'gemini-2.5-flash' : 'llama3-70b-8192'}
-                </span>
-              </div>
-              <div className="space-y-4">
-                {tweets.map(tweet => (
-                  <TweetCard key={tweet.id} tweet={tweet} />
-                ))}
+                <div className="flex items-center gap-3">
+                  <ExportMenu tweets={dashboardTweets} summary={summary} providerLabel={runLabel} />
+                  <span className="text-xs font-mono bg-slate-200 text-slate-600 px-2 py-1 rounded">
+                    Model: {runModel}
+                  </span>
+                </div>
               </div>
+              <TweetFilterBar
+                filters={tweetFilters}
+                onChange={setTweetFilters}
+                sort={tweetSort}
+                onSortChange={setTweetSort}
+                shown={feedTweets.length}
+                total={dashboardTweets.length}
+              />
+              {feedTweets.length === 0 && dashboardTweets.length > 0 && (
+                <p className="text-center text-sm text-slate-400 py-12">No tweets match these filters.</p>
+              )}
+              <VirtualList
+                items={feedTweets}
+                getKey={tweet => tweet.id}
+                renderItem={tweet => (
+                  <TweetCard tweet={tweet} onReview={isLoading ? undefined : (review) => handleReviewTweet(tweet.id, review)} />
+                )}
+                estimatedHeight={240}
+              />
             </div>
           </div>
         )}
 
+        {/* Results: Compare Mode */}
+        {!isLoading && mode === 'compare' && comparison && !importedDataset && (
+          <ComparisonPanel result={comparison} />
+        )}
+
+        {/* Evaluation Mode */}
+        {!isLoading && mode === 'evaluate' && !importedDataset && (
+          <EvaluationPanel
+            runs={evaluations}
+            activeRun={activeEvaluation}
+            benchmarkName={BENCHMARK_NAME}
+            disabled={showConfigWarning && !isDemoMode}
+            onRunBenchmark={() => runEvaluation(getBenchmarkTweets(), BENCHMARK_NAME, 4)}
+            onImport={() => fileInputRef.current?.click()}
+            onSelectRun={setActiveEvaluation}
+            onDeleteRun={handleDeleteEvaluation}
+          />
+        )}
+
         {/* Results: Live Mode */}
         {!isLoading && mode === 'live' && tweets.length > 0 && (
           <div className="max-w-2xl mx-auto">
              <TweetCard tweet={tweets[0]} />
-             <div className={`mt-8 p-6 rounded-xl border ${provider === 'gemini' ? 'bg-blue-50 border-blue-100' : 'bg-orange-50 border-orange-100'}`}>
-                <h3 className={`font-semibold mb-2 flex items-center gap-2 ${provider === 'gemini' ? 'text-blue-900' : 'text-orange-900'}`}>
+             <div className={`mt-8 p-6 rounded-xl border ${theme.panel}`}>
+                <h3 className={`font-semibold mb-2 flex items-center gap-2 ${theme.heading}`}>
                   <Terminal size={18} /> Behind the Scenes
                 </h3>
-                <p className={`text-sm mb-4 ${provider === 'gemini' ? 'text-blue-800' : 'text-orange-800'}`}>
-                  The model identified the sentiment as <strong>{tweets[0].analysis?.sentiment}</strong> with a confidence score of <strong>{tweets[0].analysis?.score.toFixed(2)}</strong>.
+                <p className={`text-sm mb-4 ${theme.body}`}>
+                  The model labeled the tweet <strong>{tweets[0].analysis && analysisLabel(tweets[0].analysis)}</strong> with a confidence score of <strong>{tweets[0].analysis?.score.toFixed(2)}</strong>.
                 </p>
                 <div className="space-y-2">
-                  <div className={`flex justify-between text-xs font-mono border-b pb-1 ${provider === 'gemini' ? 'text-blue-700 border-blue-200' : 'text-orange-700 border-orange-200'}`}>
+                  <div className={`flex justify-between text-xs font-mono border-b pb-1 ${theme.row}`}>
                     <span>Input Text</span>
                     <span>String({tweets[0].text.length})</span>
                   </div>
-                  <div className={`flex justify-between text-xs font-mono border-b pb-1 ${provider === 'gemini' ? 'text-blue-700 border-blue-200' : 'text-orange-700 border-orange-200'}`}>
+                  <div className={`flex justify-between text-xs font-mono border-b pb-1 ${theme.row}`}>
                     <span>Preprocessing</span>
                     <span>[Clean, Tokenize, Vectorize]</span>
                   </div>
-                  <div className={`flex justify-between text-xs font-mono ${provider === 'gemini' ? 'text-blue-700' : 'text-orange-700'}`}>
+                  <div className={`flex justify-between text-xs font-mono ${theme.row}`}>
                     <span>Output Class</span>
-                    <span>{tweets[0].analysis?.sentiment.toUpperCase()}</span>
+                    <span>{tweets[0].analysis && analysisLabel(tweets[0].analysis).toUpperCase()}</span>
                   </div>
                 </div>
              </div>
@@ -0,0 +1,35 @@
+import React from 'react';
+import { BatchProgress } from '../types';
+import { RefreshCw } from 'lucide-react';
+
+interface BatchProgressBarProps {
+  progress: BatchProgress;
+  providerLabel: string;
+}
+
+export const BatchProgressBar: React.FC<BatchProgressBarProps> = ({ progress, providerLabel }) => {
+  const { total, done, failed } = progress;
+  const remaining = total - done - failed;
+  const pct = (n: number) => (total ? (n / total) * 100 : 0);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm max-w-2xl mx-auto my-12">
+      <div className="flex items-center justify-between mb-3">
+        <p className="font-medium text-slate-700 flex items-center gap-2">
+          <RefreshCw className="animate-spin text-blue-500" size={16} />
+          Analyzing dataset via {providerLabel}...
+        </p>
+        <span className="text-sm font-mono text-slate-500">{done + failed}/{total}</span>
+      </div>
+      <div className="flex h-3 rounded-full overflow-hidden bg-slate-100">
+        <div style={{ width: `${pct(done)}%` }} className="bg-green-500 transition-all duration-300" />
+        <div style={{ width: `${pct(failed)}%` }} className="bg-red-500 transition-all duration-300" />
+      </div>
+      <div className="flex justify-between mt-2 text-xs text-slate-500">
+        <span className="text-green-600">{done} done</span>
+        <span className="text-red-600">{failed} failed</span>
+        <span>{remaining} remaining</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { CacheStats } from '../types';
+import { Database, Trash2 } from 'lucide-react';
+
+interface CacheStatusProps {
+  stats: CacheStats;
+  bypass: boolean;
+  disabled?: boolean;
+  onToggleBypass: (bypass: boolean) => void;
+  onClear: () => void;
+}
+
+export const CacheStatus: React.FC<CacheStatusProps> = ({ stats, bypass, disabled, onToggleBypass, onClear }) => {
+  const lookups = stats.hits + stats.misses;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mt-3 text-xs text-slate-500">
+      <span className="flex items-center gap-1.5" title="Analyses are cached per provider, model, prompt version and text">
+        <Database size={14} className="text-slate-400" />
+        Cache: <span className="font-mono text-slate-700">{stats.hits}</span> hits ·{' '}
+        <span className="font-mono text-slate-700">{stats.misses}</span> misses
+        {lookups > 0 && <span className="text-slate-400">({Math.round((stats.hits / lookups) * 100)}% hit rate)</span>}
+        · <span className="font-mono text-green-600">{stats.hits}</span> API calls saved
+        · <span className="font-mono text-slate-700">{stats.entries}</span> stored
+      </span>
+      <label className="flex items-center gap-1.5 cursor-pointer">
+        <input type="checkbox" checked={bypass} onChange={(e) => onToggleBypass(e.target.checked)} />
+        Bypass cache
+      </label>
+      <button
+        onClick={onClear}
+        disabled={disabled || stats.entries === 0}
+        className="flex items-center gap-1 text-slate-400 hover:text-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Trash2 size={12} /> Clear
+      </button>
+    </div>
+  );
+};
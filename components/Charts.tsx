@@ -1,29 +1,24 @@
-import React from 'react';
-import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
-import { TweetData, PieChartData, BarChartData, SentimentType } from '../types';
+import React, { useState } from 'react';
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid, LineChart, Line, Legend, RadarChart, Radar, PolarGrid, PolarAngleAxis, PolarRadiusAxis } from 'recharts';
+import { TweetData, PieChartData, SentimentType, TrendGranularity, TrendPoint, EvaluationReport, EvaluationRun, TopicSummary } from '../types';
+import { buildLabelTrend, suggestGranularity, buildAspectSummary, buildEmotionProfile, buildLabelDistribution } from '../services/analyticsService';
+import { POLARITY_COLORS, labelSeries } from '../services/taxonomyService';
+import { getTaxonomy } from '../services/settingsService';
 
 interface ChartsProps {
   tweets: TweetData[];
 }
 
-const COLORS = {
-  [SentimentType.POSITIVE]: '#22c55e', // green-500
-  [SentimentType.NEGATIVE]: '#ef4444', // red-500
-  [SentimentType.NEUTRAL]: '#94a3b8',  // slate-400
-};
+const COLORS = POLARITY_COLORS;
 
-export const SentimentDistributionChart: React.FC<ChartsProps> = ({ tweets }) => {
-  const dataMap = tweets.reduce((acc, tweet) => {
-    const s = tweet.analysis?.sentiment || SentimentType.NEUTRAL;
-    acc[s] = (acc[s] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
-
-  const data: PieChartData[] = Object.keys(dataMap).map(key => ({
-    name: key,
-    value: dataMap[key],
-    color: COLORS[key as SentimentType]
-  }));
+interface SentimentDistributionChartProps extends ChartsProps {
+  selected?: string | null;
+  onSelect?: (label: string | null) => void; // Clicking a slice selects it; clicking it again clears
+}
+
+// Share of each label of the active taxonomy, in the label colors
+export const SentimentDistributionChart: React.FC<SentimentDistributionChartProps> = ({ tweets, selected, onSelect }) => {
+  const data = buildLabelDistribution(tweets, getTaxonomy());
 
   if (tweets.length === 0) return <div className="h-64 flex items-center justify-center text-gray-400">No data available</div>;
 
@@ -39,9 +34,11 @@ export const SentimentDistributionChart: React.FC<ChartsProps> = ({ tweets }) =>
             outerRadius={80}
             paddingAngle={5}
             dataKey="value"
+            onClick={onSelect && ((entry: PieChartData) => onSelect(entry.name === selected ? null : entry.name))}
+            cursor={onSelect ? 'pointer' : undefined}
           >
             {data.map((entry, index) => (
-              <Cell key={`cell-${index}`} fill={entry.color} />
+              <Cell key={`cell-${index}`} fill={entry.color} fillOpacity={selected && entry.name !== selected ? 0.3 : 1} />
             ))}
           </Pie>
           <RechartsTooltip 
@@ -53,36 +50,218 @@ export const SentimentDistributionChart: React.FC<ChartsProps> = ({ tweets }) =>
   );
 };
 
-export const KeywordBarChart: React.FC<ChartsProps> = ({ tweets }) => {
-  const keywordCounts = tweets.reduce((acc, tweet) => {
-    tweet.analysis?.keywords.forEach(kw => {
-      const lower = kw.toLowerCase();
-      acc[lower] = (acc[lower] || 0) + 1;
-    });
-    return acc;
-  }, {} as Record<string, number>);
+// Aspects carry a polarity, not a taxonomy label, so this chart stays a polarity roll-up
+export const AspectSentimentChart: React.FC<ChartsProps> = ({ tweets }) => {
+  const data = buildAspectSummary(tweets, 8);
 
-  const data: BarChartData[] = Object.entries(keywordCounts)
-    .sort(([, a], [, b]) => b - a)
-    .slice(0, 5) // Top 5 keywords
-    .map(([name, count]) => ({ name, count }));
+  if (data.length === 0) {
+    return <div className="h-40 flex items-center justify-center text-center text-sm text-gray-400">No aspects detected in this dataset</div>;
+  }
 
-  if (tweets.length === 0) return <div className="h-64 flex items-center justify-center text-gray-400">No data available</div>;
+  return (
+    <div className="w-full" style={{ height: Math.max(160, data.length * 36 + 20) }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} layout="vertical" margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#334155" strokeOpacity={0.2} />
+          <XAxis type="number" hide allowDecimals={false} />
+          <YAxis type="category" dataKey="aspect" width={80} tick={{fill: '#94a3b8', fontSize: 12}} />
+          <RechartsTooltip
+            cursor={{fill: '#334155', opacity: 0.2}}
+            contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px', color: '#fff' }}
+          />
+          {/* One stacked bar per aspect: how often it was praised, neutral or criticized */}
+          <Bar dataKey="positive" name={SentimentType.POSITIVE} stackId="aspect" fill={COLORS[SentimentType.POSITIVE]} barSize={18} />
+          <Bar dataKey="neutral" name={SentimentType.NEUTRAL} stackId="aspect" fill={COLORS[SentimentType.NEUTRAL]} barSize={18} />
+          <Bar dataKey="negative" name={SentimentType.NEGATIVE} stackId="aspect" fill={COLORS[SentimentType.NEGATIVE]} radius={[0, 4, 4, 0]} barSize={18} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export const EmotionRadarChart: React.FC<ChartsProps> = ({ tweets }) => {
+  const data = buildEmotionProfile(tweets).map(point => ({
+    ...point,
+    label: point.emotion.charAt(0).toUpperCase() + point.emotion.slice(1),
+    value: Math.round(point.intensity * 100)
+  }));
+
+  if (data.length === 0) return <div className="h-64 flex items-center justify-center text-gray-400">No emotion data available</div>;
 
   return (
     <div className="h-64 w-full">
       <ResponsiveContainer width="100%" height="100%">
-        <BarChart data={data} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-          <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#334155" />
-          <XAxis type="number" hide />
-          <YAxis type="category" dataKey="name" width={80} tick={{fill: '#94a3b8', fontSize: 12}} />
-          <RechartsTooltip 
-            cursor={{fill: '#334155', opacity: 0.2}}
+        <RadarChart data={data} outerRadius="70%">
+          <PolarGrid stroke="#334155" strokeOpacity={0.2} />
+          <PolarAngleAxis dataKey="label" tick={{fill: '#94a3b8', fontSize: 11}} />
+          <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+          <RechartsTooltip
+            contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px', color: '#fff' }}
+            formatter={(value: number, _name: string, item: any) => [`${value}% avg · dominant in ${item.payload.dominantCount}`, 'Intensity']}
+          />
+          <Radar dataKey="value" stroke="#8b5cf6" fill="#8b5cf6" fillOpacity={0.35} />
+        </RadarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+const formatBucket = (iso: string, granularity: TrendGranularity) =>
+  new Date(iso).toLocaleString(undefined, granularity === 'hour'
+    ? { month: 'short', day: 'numeric', hour: '2-digit' }
+    : { month: 'short', day: 'numeric' });
+
+// Share of each label of the active taxonomy over time
+export const SentimentTrendChart: React.FC<ChartsProps> = ({ tweets }) => {
+  const [granularity, setGranularity] = useState<TrendGranularity>(() => suggestGranularity(tweets));
+  const data = buildLabelTrend(tweets, granularity).map(point => ({
+    ...point,
+    label: formatBucket(point.bucket, granularity)
+  }));
+
+  if (data.length === 0) return <div className="h-64 flex items-center justify-center text-gray-400">No data available</div>;
+
+  const series = labelSeries(getTaxonomy(), Object.keys(data[0].shares));
+
+  return (
+    <div>
+      <div className="flex justify-end gap-1 mb-2">
+        {(['hour', 'day'] as TrendGranularity[]).map(g => (
+          <button
+            key={g}
+            onClick={() => setGranularity(g)}
+            className={`px-2 py-0.5 rounded text-xs font-medium ${granularity === g ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-500 hover:text-slate-700'}`}
+          >
+            {g === 'hour' ? 'Hourly' : 'Daily'}
+          </button>
+        ))}
+      </div>
+      {data.length === 1 && (
+        <p className="text-xs text-slate-400 mb-2">All tweets fall in one {granularity}; import timestamps or pick a date range to see a trend.</p>
+      )}
+      <div className="h-64 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 10, left: -20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" strokeOpacity={0.2} />
+            <XAxis dataKey="label" tick={{fill: '#94a3b8', fontSize: 10}} minTickGap={20} />
+            <YAxis domain={[0, 100]} unit="%" tick={{fill: '#94a3b8', fontSize: 10}} />
+            <RechartsTooltip
+              contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px', color: '#fff' }}
+              formatter={(value: number, name: string) => [`${value}%`, name]}
+            />
+            {/* Raw share per bucket (faint) with the rolling average drawn on top */}
+            {series.map(s => (
+              <Line key={s.name} type="monotone" dataKey={(p: TrendPoint) => p.shares[s.name]} name={`${s.name} (raw)`} stroke={s.color} strokeOpacity={0.3} strokeDasharray="3 3" dot={false} />
+            ))}
+            {series.map(s => (
+              <Line key={`${s.name}-avg`} type="monotone" dataKey={(p: TrendPoint) => p.averages[s.name]} name={`${s.name} (avg)`} stroke={s.color} strokeWidth={2} dot={data.length < 20} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Confusion matrix as stacked bars: one bar per gold polarity, split by the polarity the model
+ * predicted. Evaluation scores polarities, whatever the active taxonomy.
+ */
+export const ConfusionMatrixChart: React.FC<{ report: EvaluationReport }> = ({ report }) => {
+  const data = report.labels.map((gold, i) => ({
+    gold,
+    ...Object.fromEntries(report.labels.map((predicted, j) => [predicted, report.confusion[i][j]]))
+  }));
+
+  return (
+    <div className="h-64 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 5, right: 10, left: -20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" strokeOpacity={0.2} />
+          <XAxis dataKey="gold" tick={{fill: '#94a3b8', fontSize: 12}} />
+          <YAxis allowDecimals={false} tick={{fill: '#94a3b8', fontSize: 10}} />
+          <RechartsTooltip
+            cursor={{fill: '#334155', opacity: 0.1}}
             contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px', color: '#fff' }}
+            labelFormatter={(gold: string) => `Gold: ${gold}`}
           />
-          <Bar dataKey="count" fill="#3b82f6" radius={[0, 4, 4, 0]} barSize={20} />
+          <Legend formatter={(value: string) => `Predicted ${value}`} wrapperStyle={{ fontSize: 12 }} />
+          {report.labels.map(predicted => (
+            <Bar key={predicted} dataKey={predicted} stackId="predicted" fill={COLORS[predicted]} />
+          ))}
         </BarChart>
       </ResponsiveContainer>
     </div>
   );
-};
\ No newline at end of file
+};
+
+// Distinct line colors for providers in the evaluation history chart
+const PROVIDER_LINE_COLORS = ['#3b82f6', '#f97316', '#8b5cf6', '#10b981', '#ec4899', '#eab308'];
+
+/**
+ * Macro-F1 of saved evaluation runs over time, one line per provider/model.
+ */
+export const EvaluationHistoryChart: React.FC<{ runs: EvaluationRun[] }> = ({ runs }) => {
+  const series = Array.from(new Set(runs.map(r => `${r.provider} / ${r.model}`)));
+  const data = [...runs]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(run => ({
+      label: new Date(run.createdAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
+      [`${run.provider} / ${run.model}`]: Math.round(run.report.macroF1 * 100)
+    }));
+
+  if (data.length === 0) return <div className="h-48 flex items-center justify-center text-gray-400">No saved evaluations yet</div>;
+
+  return (
+    <div className="h-56 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 5, right: 10, left: -20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" strokeOpacity={0.2} />
+          <XAxis dataKey="label" tick={{fill: '#94a3b8', fontSize: 10}} minTickGap={20} />
+          <YAxis domain={[0, 100]} unit="%" tick={{fill: '#94a3b8', fontSize: 10}} />
+          <RechartsTooltip
+            contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px', color: '#fff' }}
+            formatter={(value: number, name: string) => [`${value}% macro-F1`, name]}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          {series.map((name, i) => (
+            <Line key={name} type="monotone" dataKey={name} stroke={PROVIDER_LINE_COLORS[i % PROVIDER_LINE_COLORS.length]} strokeWidth={2} connectNulls />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+/**
+ * Grouped bars of each label's share per topic, for "A vs B vs C" runs.
+ */
+export const TopicSentimentChart: React.FC<{ summaries: TopicSummary[] }> = ({ summaries }) => {
+  const share = (count: number, total: number) => (total ? Math.round((count / total) * 1000) / 10 : 0);
+  const series = labelSeries(getTaxonomy(), summaries.flatMap(s => Object.keys(s.labelCounts)));
+  const data = summaries.map(s => ({
+    topic: s.topic,
+    ...Object.fromEntries(series.map(({ name }) => [name, share(s.labelCounts[name] || 0, s.totalTweets)]))
+  }));
+
+  return (
+    <div className="h-72 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 5, right: 10, left: -20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" strokeOpacity={0.2} />
+          <XAxis dataKey="topic" tick={{fill: '#94a3b8', fontSize: 12}} />
+          <YAxis domain={[0, 100]} unit="%" tick={{fill: '#94a3b8', fontSize: 10}} />
+          <RechartsTooltip
+            cursor={{fill: '#334155', opacity: 0.1}}
+            contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px', color: '#fff' }}
+            formatter={(value: number, name: string) => [`${value}%`, name]}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          {series.map(s => (
+            <Bar key={s.name} dataKey={s.name} fill={s.color} radius={[4, 4, 0, 0]} maxBarSize={36} />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { ComparisonResult } from '../types';
+import { computePairwiseAgreement, describeKappa, evaluatePredictions } from '../services/evaluationService';
+import { analysisLabel, labelSeries } from '../services/taxonomyService';
+import { getTaxonomy } from '../services/settingsService';
+import { SplitTweetCard, hasDisagreement } from './TweetCard';
+
+interface ComparisonPanelProps {
+  result: ComparisonResult;
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ result }) => {
+  const [onlyDisagreements, setOnlyDisagreements] = useState(false);
+  const pairs = computePairwiseAgreement(result);
+  const labelOf = (id: string) => result.providers.find(p => p.id === id)?.label || id;
+  const disagreements = result.tweets.filter(hasDisagreement);
+  const visible = onlyDisagreements ? disagreements : result.tweets;
+  const hasGold = result.tweets.some(t => t.goldLabel);
+
+  // Label distribution and, when gold labels exist, accuracy per provider, graded like the Evaluation tab
+  const perProvider = result.providers.map(p => {
+    const tweets = result.tweets.map(({ results, ...tweet }) => ({ ...tweet, analysis: results[p.id]?.analysis }));
+    const labelCounts: Record<string, number> = {};
+    tweets.forEach(t => {
+      if (t.analysis) labelCounts[analysisLabel(t.analysis)] = (labelCounts[analysisLabel(t.analysis)] || 0) + 1;
+    });
+    const graded = tweets.some(t => t.goldLabel && t.analysis);
+    return {
+      ...p,
+      labelCounts,
+      failed: tweets.filter(t => !t.analysis).length,
+      accuracy: graded ? evaluatePredictions(tweets).accuracy : undefined
+    };
+  });
+  const series = labelSeries(getTaxonomy(), perProvider.flatMap(p => Object.keys(p.labelCounts)));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Agreement</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-400 border-b border-slate-100">
+                <th className="py-2 font-medium">Pair</th>
+                <th className="py-2 font-medium text-right">Compared</th>
+                <th className="py-2 font-medium text-right">Agreement</th>
+                <th className="py-2 font-medium text-right">Cohen's κ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pairs.map(pair => (
+                <tr key={`${pair.providerA}-${pair.providerB}`} className="border-b border-slate-50 text-slate-700">
+                  <td className="py-2">{labelOf(pair.providerA)} vs {labelOf(pair.providerB)}</td>
+                  <td className="py-2 text-right font-mono text-slate-400">{pair.compared}</td>
+                  <td className="py-2 text-right font-mono">{pct(pair.agreement)}</td>
+                  <td className="py-2 text-right font-mono" title={`${describeKappa(pair.kappa)} agreement`}>
+                    {pair.kappa.toFixed(2)} <span className="text-xs text-slate-400 font-sans">({describeKappa(pair.kappa)})</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-slate-400 mt-3">
+            κ corrects the raw agreement for agreement expected by chance; above 0.8 the providers are close to interchangeable.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Per Provider</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-400 border-b border-slate-100">
+                <th className="py-2 font-medium">Provider</th>
+                {series.map(({ name }) => <th key={name} className="py-2 font-medium text-right">{name}</th>)}
+                <th className="py-2 font-medium text-right">Failed</th>
+                {hasGold && <th className="py-2 font-medium text-right">Accuracy</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {perProvider.map(p => (
+                <tr key={p.id} className="border-b border-slate-50 text-slate-700">
+                  <td className="py-2">
+                    {p.label} <span className="block text-[10px] font-mono text-slate-400">{p.model}</span>
+                  </td>
+                  {series.map(({ name, color }) => (
+                    <td key={name} className="py-2 text-right font-mono" style={{ color }}>{p.labelCounts[name] || 0}</td>
+                  ))}
+                  <td className="py-2 text-right font-mono text-slate-400">{p.failed}</td>
+                  {hasGold && <td className="py-2 text-right font-mono">{p.accuracy === undefined ? '–' : pct(p.accuracy)}</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-slate-700">
+            {result.tweets.length} tweets · <span className="text-amber-600">{disagreements.length} disagreements</span>
+          </h3>
+          <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={onlyDisagreements} onChange={(e) => setOnlyDisagreements(e.target.checked)} />
+            Only show disagreements
+          </label>
+        </div>
+        <div className="space-y-4">
+          {visible.map(tweet => (
+            <SplitTweetCard key={tweet.id} tweet={tweet} providers={result.providers} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { ColumnMapping, ParsedDataset } from '../types';
+import { FileSpreadsheet, PlayCircle, X } from 'lucide-react';
+
+interface DatasetImportPanelProps {
+  dataset: ParsedDataset;
+  disabled?: boolean;
+  onAnalyze: (mapping: ColumnMapping, limit: number, concurrency: number) => void;
+  onCancel: () => void;
+}
+
+const FIELDS: { key: keyof ColumnMapping; label: string; required?: boolean }[] = [
+  { key: 'text', label: 'Tweet Text', required: true },
+  { key: 'author', label: 'Author' },
+  { key: 'timestamp', label: 'Timestamp' },
+  { key: 'label', label: 'Gold Label' },
+  { key: 'topic', label: 'Topic' },
+];
+
+export const DatasetImportPanel: React.FC<DatasetImportPanelProps> = ({ dataset, disabled, onAnalyze, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(dataset.suggestedMapping);
+  // Default to a small slice so a large export doesn't burn through the API quota by accident
+  const [limit, setLimit] = useState(Math.min(dataset.rows.length, 50));
+  const [concurrency, setConcurrency] = useState(4);
+
+  const preview = dataset.rows.slice(0, 3).map(row => row[mapping.text] || '');
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-8">
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="bg-blue-50 p-2 rounded-lg text-blue-600">
+            <FileSpreadsheet size={20} />
+          </div>
+          <div>
+            <h3 className="font-semibold text-slate-800">{dataset.fileName}</h3>
+            <p className="text-xs text-slate-500">{dataset.rows.length} rows • {dataset.columns.length} columns detected</p>
+          </div>
+        </div>
+        <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+        {FIELDS.map(field => (
+          <label key={field.key} className="text-xs font-semibold text-slate-500 uppercase tracking-wide">
+            {field.label}
+            <select
+              value={mapping[field.key] || ''}
+              onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value || undefined })}
+              className="mt-1 w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-md text-sm font-normal normal-case text-slate-700"
+            >
+              {!field.required && <option value="">— none —</option>}
+              {dataset.columns.map(col => (
+                <option key={col} value={col}>{col}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="bg-slate-50 rounded-lg p-3 border border-slate-100 mb-4 space-y-1">
+        <p className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">Preview</p>
+        {preview.map((text, i) => (
+          <p key={i} className="text-sm text-slate-700 truncate">{text || <span className="text-slate-400 italic">empty</span>}</p>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <label className="text-sm text-slate-600 flex items-center gap-2">
+          Analyze first
+          <input
+            type="number"
+            min={1}
+            max={dataset.rows.length}
+            value={limit}
+            onChange={(e) => setLimit(Math.max(1, Math.min(dataset.rows.length, Number(e.target.value) || 1)))}
+            className="w-24 px-2 py-1 bg-slate-50 border border-slate-200 rounded-md text-sm"
+          />
+          of {dataset.rows.length} rows
+        </label>
+        <label className="text-sm text-slate-600 flex items-center gap-2">
+          Parallel requests
+          <input
+            type="number"
+            min={1}
+            max={16}
+            value={concurrency}
+            onChange={(e) => setConcurrency(Math.max(1, Math.min(16, Number(e.target.value) || 1)))}
+            className="w-16 px-2 py-1 bg-slate-50 border border-slate-200 rounded-md text-sm"
+          />
+        </label>
+        <button
+          onClick={() => onAnalyze(mapping, limit, concurrency)}
+          disabled={disabled || !mapping.text}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-70 disabled:cursor-not-allowed"
+        >
+          <PlayCircle size={18} />
+          Analyze Dataset
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React from 'react';
+import { EvaluationRun } from '../types';
+import { ConfusionMatrixChart, EvaluationHistoryChart } from './Charts';
+import { FlaskConical, Upload, Trash2 } from 'lucide-react';
+
+interface EvaluationPanelProps {
+  runs: EvaluationRun[];
+  activeRun: EvaluationRun | null;
+  benchmarkName: string;
+  disabled?: boolean;
+  onRunBenchmark: () => void;
+  onImport: () => void;
+  onSelectRun: (run: EvaluationRun) => void;
+  onDeleteRun: (id: string) => void;
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const MetricTile: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-slate-50 rounded-lg border border-slate-100 p-4">
+    <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">{label}</p>
+    <p className="text-2xl font-bold text-slate-800 mt-1">{value}</p>
+    {hint && <p className="text-xs text-slate-400 mt-0.5">{hint}</p>}
+  </div>
+);
+
+const ReportView: React.FC<{ run: EvaluationRun }> = ({ run }) => {
+  const { report } = run;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm space-y-6">
+      <div>
+        <h3 className="font-semibold text-slate-800">{run.datasetName}</h3>
+        <p className="text-xs font-mono text-slate-400">{run.provider} / {run.model} • {new Date(run.createdAt).toLocaleString()}</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <MetricTile label="Accuracy" value={pct(report.accuracy)} />
+        <MetricTile label="Macro-F1" value={pct(report.macroF1)} />
+        <MetricTile
+          label="Evaluated"
+          value={String(report.evaluated)}
+          hint={report.skipped > 0 ? `${report.skipped} skipped (no gold label or failed)` : undefined}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-3">Per-class Metrics</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-400 border-b border-slate-100">
+                <th className="py-2 font-medium">Label</th>
+                <th className="py-2 font-medium text-right">Precision</th>
+                <th className="py-2 font-medium text-right">Recall</th>
+                <th className="py-2 font-medium text-right">F1</th>
+                <th className="py-2 font-medium text-right">Support</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.perClass.map(c => (
+                <tr key={c.label} className="border-b border-slate-50 text-slate-700">
+                  <td className="py-2 font-medium">{c.label}</td>
+                  <td className="py-2 text-right font-mono">{pct(c.precision)}</td>
+                  <td className="py-2 text-right font-mono">{pct(c.recall)}</td>
+                  <td className="py-2 text-right font-mono">{pct(c.f1)}</td>
+                  <td className="py-2 text-right font-mono text-slate-400">{c.support}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h4 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mt-6 mb-3">Confusion Matrix (Polarity)</h4>
+          <table className="text-xs font-mono">
+            <thead>
+              <tr className="text-slate-400">
+                <th className="p-1.5 text-left font-medium">gold \ pred</th>
+                {report.labels.map(l => <th key={l} className="p-1.5 font-medium">{l.slice(0, 3)}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {report.labels.map((gold, i) => {
+                const rowTotal = report.confusion[i].reduce((a, b) => a + b, 0) || 1;
+                return (
+                  <tr key={gold}>
+                    <td className="p-1.5 text-slate-500 font-sans">{gold}</td>
+                    {report.confusion[i].map((count, j) => (
+                      <td
+                        key={j}
+                        className={`p-1.5 text-center rounded ${i === j ? 'text-green-800' : 'text-red-800'}`}
+                        // Shade cells by their share of the gold row
+                        style={{ backgroundColor: `rgba(${i === j ? '34, 197, 94' : '239, 68, 68'}, ${(count / rowTotal) * 0.35})` }}
+                      >
+                        {count}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-3">Predictions by Gold Polarity</h4>
+          <ConfusionMatrixChart report={report} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const EvaluationPanel: React.FC<EvaluationPanelProps> = ({ runs, activeRun, benchmarkName, disabled, onRunBenchmark, onImport, onSelectRun, onDeleteRun }) => (
+  <div className="space-y-6">
+    <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm flex flex-wrap items-center gap-3">
+      <p className="text-sm text-slate-600 flex-1 min-w-[240px]">
+        Run a labeled dataset through the selected provider and compare its predictions with the gold labels.
+      </p>
+      <button
+        onClick={onRunBenchmark}
+        disabled={disabled}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-slate-800 hover:bg-slate-900 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <FlaskConical size={16} /> Run {benchmarkName}
+      </button>
+      <button
+        onClick={onImport}
+        disabled={disabled}
+        title="Import a CSV, JSONL or JSON file with a gold label column"
+        className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-slate-100 hover:bg-slate-200 text-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Upload size={16} /> Import labeled file
+      </button>
+    </div>
+
+    {activeRun && <ReportView run={activeRun} />}
+
+    <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm">
+      <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Macro-F1 Over Time</h3>
+      <EvaluationHistoryChart runs={runs} />
+
+      {runs.length > 0 && (
+        <table className="w-full text-sm mt-6">
+          <thead>
+            <tr className="text-left text-xs text-slate-400 border-b border-slate-100">
+              <th className="py-2 font-medium">Date</th>
+              <th className="py-2 font-medium">Dataset</th>
+              <th className="py-2 font-medium">Provider / Model</th>
+              <th className="py-2 font-medium text-right">Accuracy</th>
+              <th className="py-2 font-medium text-right">Macro-F1</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {runs.map(run => (
+              <tr
+                key={run.id}
+                onClick={() => onSelectRun(run)}
+                className={`border-b border-slate-50 cursor-pointer hover:bg-slate-50 ${run.id === activeRun?.id ? 'bg-blue-50/50' : ''}`}
+              >
+                <td className="py-2 text-slate-500 whitespace-nowrap">{new Date(run.createdAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</td>
+                <td className="py-2 text-slate-700 truncate max-w-[200px]" title={run.datasetName}>{run.datasetName}</td>
+                <td className="py-2 font-mono text-xs text-slate-500">{run.provider} / {run.model}</td>
+                <td className="py-2 text-right font-mono">{pct(run.report.accuracy)}</td>
+                <td className="py-2 text-right font-mono font-semibold">{pct(run.report.macroF1)}</td>
+                <td className="py-2 text-right">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onDeleteRun(run.id); }}
+                    title="Delete"
+                    className="p-1 text-slate-400 hover:text-red-500"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  </div>
+);
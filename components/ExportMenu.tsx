@@ -0,0 +1,53 @@
+import React from 'react';
+import { TweetData, TopicSummary } from '../types';
+import { tweetsToCsv, tweetsToJson, tweetsToLabeledJsonl, tweetsToLabeledCsv, buildMarkdownReport, buildHtmlReport, downloadFile, toFileStem } from '../services/exportService';
+import { Download } from 'lucide-react';
+
+interface ExportMenuProps {
+  tweets: TweetData[];
+  summary: TopicSummary;
+  providerLabel: string;
+}
+
+type ExportFormat = 'csv' | 'json' | 'md' | 'html' | 'labeled-jsonl' | 'labeled-csv';
+
+const EXPORT_OPTIONS: readonly { id: ExportFormat; label: string; title?: string }[] = [
+  { id: 'csv', label: 'CSV' },
+  { id: 'json', label: 'JSON' },
+  { id: 'md', label: 'Markdown' },
+  { id: 'html', label: 'HTML' },
+  { id: 'labeled-jsonl', label: 'Labeled JSONL', title: 'Training data: human labels where reviewed, model labels otherwise' },
+  { id: 'labeled-csv', label: 'Labeled CSV', title: 'Training data: human labels where reviewed, model labels otherwise' },
+] as const;
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ tweets, summary, providerLabel }) => {
+  const exportAs = (format: ExportFormat) => {
+    const meta = { provider: providerLabel, generatedAt: new Date().toISOString() };
+    const stem = `${toFileStem(summary.topic)}-sentiment`;
+
+    switch (format) {
+      case 'csv': return downloadFile(tweetsToCsv(tweets), `${stem}.csv`, 'text/csv');
+      case 'json': return downloadFile(tweetsToJson(tweets, summary, meta), `${stem}.json`, 'application/json');
+      case 'md': return downloadFile(buildMarkdownReport(summary, tweets, meta), `${stem}-report.md`, 'text/markdown');
+      case 'html': return downloadFile(buildHtmlReport(summary, tweets, meta), `${stem}-report.html`, 'text/html');
+      case 'labeled-jsonl': return downloadFile(tweetsToLabeledJsonl(tweets), `${stem}-labeled.jsonl`, 'application/jsonl');
+      case 'labeled-csv': return downloadFile(tweetsToLabeledCsv(tweets), `${stem}-labeled.csv`, 'text/csv');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <Download size={14} className="text-slate-400 mr-1" />
+      {EXPORT_OPTIONS.map(item => (
+        <button
+          key={item.id}
+          onClick={() => exportAs(item.id)}
+          title={item.title}
+          className="px-2 py-1 rounded bg-white border border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-600 transition-colors font-medium"
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { SessionSummary } from '../types';
+import { History, X, Pencil, Trash2, RotateCcw, FolderOpen, Check, FileSpreadsheet, Hash } from 'lucide-react';
+
+interface HistoryPanelProps {
+  sessions: SessionSummary[];
+  activeSessionId?: string;
+  disabled?: boolean;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onRerun: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ sessions, activeSessionId, disabled, onOpen, onRename, onDelete, onRerun, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (session: SessionSummary) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="fixed top-16 right-0 bottom-0 w-80 z-40 bg-white border-l border-slate-200 shadow-xl flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+        <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+          <History size={16} /> Session History
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {sessions.length === 0 && (
+          <p className="text-sm text-slate-400 text-center py-10">Dataset runs are saved here automatically.</p>
+        )}
+        {sessions.map(session => {
+          const SourceIcon = session.source.kind === 'file' ? FileSpreadsheet : Hash;
+          return (
+            <div
+              key={session.id}
+              className={`rounded-lg border p-3 transition-colors ${session.id === activeSessionId ? 'border-blue-300 bg-blue-50/50' : 'border-slate-200 hover:border-slate-300'}`}
+            >
+              {editingId === session.id ? (
+                <div className="flex gap-1 mb-1">
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm border border-slate-200 rounded"
+                  />
+                  <button onClick={commitRename} className="p-1 text-green-600 hover:bg-green-50 rounded"><Check size={16} /></button>
+                </div>
+              ) : (
+                <p className="font-medium text-sm text-slate-800 truncate mb-1 flex items-center gap-1.5" title={session.name}>
+                  <SourceIcon size={14} className="text-slate-400 flex-shrink-0" />
+                  {session.name}
+                </p>
+              )}
+              <p className="text-xs text-slate-500">{formatDate(session.createdAt)} • {session.tweetCount} tweets</p>
+              <p className="text-[10px] font-mono text-slate-400 truncate">{session.provider} / {session.model}</p>
+
+              <div className="flex gap-1 mt-2">
+                <button
+                  onClick={() => onOpen(session.id)}
+                  disabled={disabled}
+                  className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-slate-100 hover:bg-slate-200 text-slate-700 disabled:opacity-50"
+                >
+                  <FolderOpen size={12} /> Open
+                </button>
+                <button
+                  onClick={() => onRerun(session.id)}
+                  disabled={disabled}
+                  title="Run this topic or file again with the selected provider"
+                  className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-slate-100 hover:bg-slate-200 text-slate-700 disabled:opacity-50"
+                >
+                  <RotateCcw size={12} /> Re-run
+                </button>
+                <button onClick={() => startRename(session)} title="Rename" className="ml-auto p-1 text-slate-400 hover:text-slate-600">
+                  <Pencil size={14} />
+                </button>
+                <button onClick={() => onDelete(session.id)} title="Delete" className="p-1 text-slate-400 hover:text-red-500">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { TweetData, KeywordScore } from '../types';
+import { buildSentimentKeywords } from '../services/keywordService';
+
+interface KeywordInsightsProps {
+  tweets: TweetData[];
+  selected: string | null;
+  onSelect: (term: string | null) => void;
+}
+
+const KeywordColumn: React.FC<{
+  title: string;
+  keywords: KeywordScore[];
+  barClass: string;
+  titleClass: string;
+  selected: string | null;
+  onSelect: (term: string | null) => void;
+}> = ({ title, keywords, barClass, titleClass, selected, onSelect }) => {
+  const maxScore = Math.max(...keywords.map(k => k.score), 0);
+  return (
+    <div className="min-w-0">
+      <h4 className={`text-xs font-semibold mb-2 ${titleClass}`}>{title}</h4>
+      {keywords.length === 0 && <p className="text-xs text-slate-400">No distinctive terms</p>}
+      <div className="space-y-1">
+        {keywords.map(k => {
+          const isSelected = k.term === selected;
+          return (
+            <button
+              key={k.term}
+              onClick={() => onSelect(isSelected ? null : k.term)}
+              title={`TF-IDF ${k.score} · in ${k.tweetCount} ${k.tweetCount === 1 ? 'tweet' : 'tweets'}. Click to list them.`}
+              className={`w-full text-left rounded-md px-1.5 py-1 transition-colors ${isSelected ? 'bg-sky-50 ring-1 ring-sky-200' : 'hover:bg-slate-50'}`}
+            >
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate text-slate-700">{k.term}</span>
+                <span className="text-slate-400 shrink-0">{k.tweetCount}</span>
+              </div>
+              <div className="mt-0.5 h-1 rounded-full bg-slate-100 overflow-hidden">
+                <div style={{ width: `${maxScore ? (k.score / maxScore) * 100 : 0}%` }} className={`h-full ${barClass}`} />
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Positive-only and negative-only keyword rankings side by side, computed locally with
+ * TF-IDF over words and two/three-word phrases.
+ */
+export const KeywordInsights: React.FC<KeywordInsightsProps> = ({ tweets, selected, onSelect }) => {
+  // Re-ranked only when the dataset changes, not on every filter keystroke in the feed
+  const { positive, negative } = useMemo(() => buildSentimentKeywords(tweets), [tweets]);
+  if (tweets.length === 0) return <div className="h-32 flex items-center justify-center text-gray-400">No data available</div>;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <KeywordColumn title="Positive only" keywords={positive} barClass="bg-green-500" titleClass="text-green-600" selected={selected} onSelect={onSelect} />
+        <KeywordColumn title="Negative only" keywords={negative} barClass="bg-red-500" titleClass="text-red-600" selected={selected} onSelect={onSelect} />
+      </div>
+      {selected && (
+        <button onClick={() => onSelect(null)} className="text-xs text-sky-600 hover:text-sky-800">
+          Clear keyword filter
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { LanguageBreakdownRow } from '../types';
+import { languageName } from './TweetCard';
+
+interface LanguageBreakdownProps {
+  rows: LanguageBreakdownRow[];
+  selected: string | null;
+  onSelect: (language: string | null) => void;
+}
+
+export const LanguageBreakdown: React.FC<LanguageBreakdownProps> = ({ rows, selected, onSelect }) => (
+  <div className="space-y-3">
+    {rows.map(row => {
+      const isSelected = row.language === selected;
+      const share = (count: number) => `${(count / row.total) * 100}%`;
+      return (
+        <button
+          key={row.language}
+          onClick={() => onSelect(isSelected ? null : row.language)}
+          title={isSelected ? 'Show all languages' : `Only show ${languageName(row.language)} tweets`}
+          className={`w-full text-left rounded-lg p-2 -mx-2 transition-colors ${isSelected ? 'bg-sky-50 ring-1 ring-sky-200' : 'hover:bg-slate-50'}`}
+        >
+          <div className="flex items-center justify-between text-sm mb-1">
+            <span className="text-slate-700">
+              {languageName(row.language)} <span className="font-mono text-xs text-slate-400">{row.language.toUpperCase()}</span>
+            </span>
+            <span className="text-xs text-slate-500">
+              {row.total} · <span className="text-green-600">{Math.round((row.positive / row.total) * 100)}% pos</span>
+            </span>
+          </div>
+          <div className="flex gap-0.5 h-1.5 rounded-full overflow-hidden bg-slate-100">
+            <div style={{ width: share(row.positive) }} className="bg-green-500" />
+            <div style={{ width: share(row.neutral) }} className="bg-slate-300" />
+            <div style={{ width: share(row.negative) }} className="bg-red-500" />
+          </div>
+        </button>
+      );
+    })}
+    {selected && (
+      <button onClick={() => onSelect(null)} className="text-xs text-sky-600 hover:text-sky-800">
+        Clear language filter
+      </button>
+    )}
+  </div>
+);
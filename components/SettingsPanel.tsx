@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { RuntimeSettings, ProviderSettings } from '../types';
+import { SentimentProvider } from '../services/providers';
+import { getApiKey, getTaxonomy } from '../services/settingsService';
+import { validateTaxonomy } from '../services/taxonomyService';
+import { TaxonomyEditor } from './TaxonomyEditor';
+import { Settings, X, Save, ExternalLink } from 'lucide-react';
+
+interface SettingsPanelProps {
+  providers: SentimentProvider[];
+  settings: RuntimeSettings;
+  onSave: (settings: RuntimeSettings, apiKeys: Record<string, string>) => void;
+  onClose: () => void;
+}
+
+const inputClass = "mt-1 w-full px-2 py-1.5 bg-white border border-slate-200 rounded-md text-sm font-mono font-normal normal-case text-slate-700";
+const labelClass = "block text-xs font-semibold text-slate-500 uppercase tracking-wide";
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ providers, settings, onSave, onClose }) => {
+  // Only providers with something to configure; the offline classifier has no model, key or endpoint
+  const configurable = providers.filter(p => p.requiresKey || p.modelOptions || p.defaultBaseUrl);
+  // A stored taxonomy that no longer validates is edited from the preset it falls back to
+  const [draft, setDraft] = useState<RuntimeSettings>(() => ({ ...settings, taxonomy: getTaxonomy() }));
+  const [apiKeys, setApiKeys] = useState<Record<string, string>>(() =>
+    Object.fromEntries(configurable.map(p => [p.id, getApiKey(p.id) || '']))
+  );
+
+  const taxonomyError = validateTaxonomy(draft.taxonomy);
+
+  const updateProvider = (id: string, changes: ProviderSettings) =>
+    setDraft({ ...draft, providers: { ...draft.providers, [id]: { ...draft.providers[id], ...changes } } });
+
+  return (
+    <aside className="fixed top-16 right-0 bottom-0 w-96 z-40 bg-white border-l border-slate-200 shadow-xl flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+        <h3 className="font-semibold text-slate-700 flex items-center gap-2">
+          <Settings size={16} /> Settings
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        <section className="space-y-3">
+          <h4 className="font-medium text-slate-700 text-sm">Connection</h4>
+          <div className="flex bg-slate-100 p-1 rounded-lg">
+            {(['direct', 'proxy'] as const).map(transport => (
+              <button
+                key={transport}
+                onClick={() => setDraft({ ...draft, transport })}
+                className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${draft.transport === transport ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {transport === 'direct' ? 'Direct' : 'API Proxy'}
+              </button>
+            ))}
+          </div>
+          {draft.transport === 'proxy' && (
+            <label className={labelClass}>
+              Proxy URL
+              <input
+                type="text"
+                value={draft.proxyUrl}
+                onChange={(e) => setDraft({ ...draft, proxyUrl: e.target.value.trim() })}
+                placeholder="/api"
+                className={inputClass}
+              />
+            </label>
+          )}
+          <p className="text-xs text-slate-400">
+            {draft.transport === 'proxy'
+              ? 'Providers that need a key are called through the proxy server (npm run server), which holds the keys. Keys entered below are not used.'
+              : 'The browser calls each provider itself, with the keys entered below.'}
+          </p>
+        </section>
+
+        {configurable.map(p => (
+          <section key={p.id} className="space-y-3">
+            <h4 className="font-medium text-slate-700 text-sm">{p.label}</h4>
+            <label className={labelClass}>
+              Model
+              <input
+                type="text"
+                list={`models-${p.id}`}
+                value={draft.providers[p.id]?.model || ''}
+                onChange={(e) => updateProvider(p.id, { model: e.target.value.trim() || undefined })}
+                placeholder={p.defaultModel}
+                className={inputClass}
+              />
+              <datalist id={`models-${p.id}`}>
+                {p.modelOptions?.map(model => <option key={model} value={model} />)}
+              </datalist>
+            </label>
+            {p.defaultBaseUrl && (
+              <label className={labelClass}>
+                Base URL
+                <input
+                  type="text"
+                  value={draft.providers[p.id]?.baseUrl || ''}
+                  onChange={(e) => updateProvider(p.id, { baseUrl: e.target.value.trim() || undefined })}
+                  placeholder={p.defaultBaseUrl}
+                  className={inputClass}
+                />
+              </label>
+            )}
+            <label className={labelClass}>
+              API Key {!p.requiresKey && <span className="normal-case font-normal text-slate-400">(optional)</span>}
+              <input
+                type="password"
+                autoComplete="off"
+                value={apiKeys[p.id]}
+                onChange={(e) => setApiKeys({ ...apiKeys, [p.id]: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            {p.keyUrl && (
+              <a href={p.keyUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline">
+                Get a {p.label} API key <ExternalLink size={12} />
+              </a>
+            )}
+          </section>
+        ))}
+
+        <section className="space-y-3">
+          <h4 className="font-medium text-slate-700 text-sm">Requests</h4>
+          <label className={labelClass}>
+            Temperature
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={draft.temperature}
+              onChange={(e) => setDraft({ ...draft, temperature: Math.min(2, Math.max(0, Number(e.target.value) || 0)) })}
+              className={inputClass}
+            />
+          </label>
+          <label className={labelClass}>
+            Max tokens per response
+            <input
+              type="number"
+              min={256}
+              step={256}
+              value={draft.maxTokens}
+              onChange={(e) => setDraft({ ...draft, maxTokens: Math.max(256, Math.floor(Number(e.target.value)) || 256) })}
+              className={inputClass}
+            />
+          </label>
+          <label className={labelClass}>
+            Generated tweets per request
+            <input
+              type="number"
+              min={1}
+              max={50}
+              value={draft.generationBatchSize}
+              onChange={(e) => setDraft({ ...draft, generationBatchSize: Math.min(50, Math.max(1, Math.floor(Number(e.target.value)) || 1)) })}
+              className={inputClass}
+            />
+          </label>
+        </section>
+
+        <section className="space-y-3">
+          <h4 className="font-medium text-slate-700 text-sm">Labels &amp; Prompt</h4>
+          <p className="text-xs text-slate-400">
+            Every provider classifies into these labels. Editing them or the prompt starts a fresh response cache.
+          </p>
+          <TaxonomyEditor taxonomy={draft.taxonomy} onChange={(taxonomy) => setDraft({ ...draft, taxonomy })} error={taxonomyError} />
+        </section>
+
+        <p className="text-xs text-slate-400">
+          API keys stay in this tab's session storage and are sent only to the provider they belong to. They are forgotten when the tab closes.
+        </p>
+      </div>
+
+      <div className="p-4 border-t border-slate-100">
+        <button
+          onClick={() => onSave(draft, apiKeys)}
+          disabled={!!taxonomyError}
+          title={taxonomyError}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-900 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          <Save size={16} /> Save
+        </button>
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { SentimentType, SyntheticConfig } from '../types';
+import { randomSeed, DEFAULT_SYNTHETIC_CONFIG } from '../services/offline/synthetic';
+import { Dices, RotateCcw } from 'lucide-react';
+
+interface SyntheticSettingsProps {
+  config: SyntheticConfig;
+  onChange: (config: SyntheticConfig) => void;
+}
+
+const MIX_FIELDS = [
+  { sentiment: SentimentType.POSITIVE, label: 'Pos' },
+  { sentiment: SentimentType.NEUTRAL, label: 'Neu' },
+  { sentiment: SentimentType.NEGATIVE, label: 'Neg' }
+];
+
+const fieldClass = "mt-1 w-full px-2 py-1.5 bg-white border border-violet-200 rounded-md text-sm font-mono font-normal normal-case text-slate-700";
+const labelClass = "text-xs font-semibold text-violet-700 uppercase tracking-wide";
+
+export const SyntheticSettings: React.FC<SyntheticSettingsProps> = ({ config, onChange }) => {
+  // Edited as free text so commas and spaces can be typed; parsed into the list on every change
+  const [vocabularyDraft, setVocabularyDraft] = useState(config.vocabulary.join(', '));
+  const update = (changes: Partial<SyntheticConfig>) => onChange({ ...config, ...changes });
+  const percent = (value: string) => Math.min(100, Math.max(0, Number(value) || 0)) / 100;
+
+  return (
+    <div className="bg-violet-50 border border-violet-100 rounded-xl p-4 -mt-4 mb-8 flex flex-wrap items-end gap-3">
+      <label className={`w-36 ${labelClass}`}>
+        Seed
+        <div className="flex gap-1">
+          <input
+            type="number"
+            value={config.seed}
+            onChange={(e) => update({ seed: Math.floor(Number(e.target.value)) >>> 0 })}
+            className={fieldClass}
+          />
+          <button
+            onClick={() => update({ seed: randomSeed() })}
+            title="Random seed"
+            className="mt-1 px-2 bg-white border border-violet-200 rounded-md text-violet-600 hover:bg-violet-100"
+          >
+            <Dices size={16} />
+          </button>
+        </div>
+      </label>
+      {MIX_FIELDS.map(({ sentiment, label }) => (
+        <label key={sentiment} className={`w-16 ${labelClass}`} title={`Relative weight of ${sentiment} tweets`}>
+          {label}
+          <input
+            type="number"
+            min={0}
+            value={config.sentimentMix[sentiment]}
+            onChange={(e) => update({ sentimentMix: { ...config.sentimentMix, [sentiment]: Math.max(0, Number(e.target.value) || 0) } })}
+            className={fieldClass}
+          />
+        </label>
+      ))}
+      <label className={`w-24 ${labelClass}`} title="Share of negative tweets written as sarcastic praise">
+        Sarcasm %
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={Math.round(config.sarcasmRate * 100)}
+          onChange={(e) => update({ sarcasmRate: percent(e.target.value) })}
+          className={fieldClass}
+        />
+      </label>
+      <label className={`w-24 ${labelClass}`} title="Chance of a typo, stretched word, lowercase text or stray hashtag">
+        Noise %
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={Math.round(config.noiseRate * 100)}
+          onChange={(e) => update({ noiseRate: percent(e.target.value) })}
+          className={fieldClass}
+        />
+      </label>
+      <label className={`w-40 ${labelClass}`} title="Without a date range, tweets fall in the hours before this day (UTC)">
+        Ends
+        <input
+          type="date"
+          value={config.anchor.slice(0, 10)}
+          onChange={(e) => e.target.value && update({ anchor: `${e.target.value}T00:00:00.000Z` })}
+          className={fieldClass}
+        />
+      </label>
+      <label className={`flex-1 min-w-[200px] ${labelClass}`} title="Features the tweets talk about">
+        Vocabulary
+        <input
+          type="text"
+          value={vocabularyDraft}
+          onChange={(e) => {
+            setVocabularyDraft(e.target.value);
+            update({ vocabulary: e.target.value.split(',').map(w => w.trim()).filter(Boolean) });
+          }}
+          placeholder="battery, camera, price"
+          className={fieldClass}
+        />
+      </label>
+      <button
+        onClick={() => {
+          onChange(DEFAULT_SYNTHETIC_CONFIG);
+          setVocabularyDraft(DEFAULT_SYNTHETIC_CONFIG.vocabulary.join(', '));
+        }}
+        title="Restore the default settings"
+        className="flex items-center gap-2 px-3 py-1.5 text-violet-700 hover:bg-violet-100 rounded-lg text-sm font-medium transition-colors"
+      >
+        <RotateCcw size={14} /> Defaults
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React from 'react';
+import { LabelTaxonomy, LabelDefinition, FewShotExample, SentimentType } from '../types';
+import { TAXONOMY_PRESETS, DEFAULT_PROMPT_TEMPLATE, POLARITY_COLORS } from '../services/taxonomyService';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+
+interface TaxonomyEditorProps {
+  taxonomy: LabelTaxonomy;
+  onChange: (taxonomy: LabelTaxonomy) => void;
+  error?: string; // From validateTaxonomy; shown under the editor
+}
+
+const inputClass = "px-2 py-1.5 bg-white border border-slate-200 rounded-md text-sm font-normal normal-case text-slate-700";
+const labelClass = "block text-xs font-semibold text-slate-500 uppercase tracking-wide";
+
+const POLARITY_OPTIONS = [SentimentType.POSITIVE, SentimentType.NEUTRAL, SentimentType.NEGATIVE];
+
+/**
+ * Label set, prompt template and few-shot examples of the taxonomy every provider classifies
+ * into. Starting from a preset and editing anything turns the taxonomy into a custom one.
+ */
+export const TaxonomyEditor: React.FC<TaxonomyEditorProps> = ({ taxonomy, onChange, error }) => {
+  const edit = (changes: Partial<LabelTaxonomy>) => onChange({ ...taxonomy, id: 'custom', name: 'Custom', ...changes });
+
+  const updateLabel = (index: number, changes: Partial<LabelDefinition>) => {
+    const previous = taxonomy.labels[index];
+    const labels = taxonomy.labels.map((label, i) => (i === index ? { ...label, ...changes } : label));
+    // Examples follow a renamed label instead of pointing at a name that no longer exists
+    const examples = changes.name === undefined
+      ? taxonomy.examples
+      : taxonomy.examples.map(example => (example.label === previous.name ? { ...example, label: changes.name! } : example));
+    edit({ labels, examples });
+  };
+
+  const addLabel = () =>
+    edit({ labels: [...taxonomy.labels, { name: '', color: POLARITY_COLORS[SentimentType.NEUTRAL], polarity: SentimentType.NEUTRAL }] });
+
+  const removeLabel = (index: number) => {
+    const removed = taxonomy.labels[index].name;
+    edit({
+      labels: taxonomy.labels.filter((_, i) => i !== index),
+      examples: taxonomy.examples.filter(example => example.label !== removed)
+    });
+  };
+
+  const updateExample = (index: number, changes: Partial<FewShotExample>) =>
+    edit({ examples: taxonomy.examples.map((example, i) => (i === index ? { ...example, ...changes } : example)) });
+
+  return (
+    <div className="space-y-4">
+      <label className={labelClass}>
+        Preset
+        <select
+          value={taxonomy.id}
+          onChange={(e) => {
+            const preset = TAXONOMY_PRESETS.find(p => p.id === e.target.value);
+            if (preset) onChange(preset);
+          }}
+          className={`${inputClass} mt-1 w-full`}
+        >
+          {TAXONOMY_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+          {!TAXONOMY_PRESETS.some(preset => preset.id === taxonomy.id) && <option value={taxonomy.id}>{taxonomy.name}</option>}
+        </select>
+      </label>
+
+      <div className="space-y-2">
+        <span className={labelClass}>Labels</span>
+        {taxonomy.labels.map((label, index) => (
+          <div key={index} className="space-y-1 border border-slate-100 rounded-lg p-2">
+            <div className="flex items-center gap-1.5">
+              <input
+                type="color"
+                value={label.color}
+                onChange={(e) => updateLabel(index, { color: e.target.value })}
+                title="Badge and chart color"
+                className="w-8 h-8 shrink-0 rounded border border-slate-200 bg-white cursor-pointer"
+              />
+              <input
+                type="text"
+                value={label.name}
+                onChange={(e) => updateLabel(index, { name: e.target.value })}
+                placeholder="Label name"
+                className={`${inputClass} flex-1 min-w-0`}
+              />
+              <select
+                value={label.polarity}
+                onChange={(e) => updateLabel(index, { polarity: e.target.value as SentimentType })}
+                title="Polarity used by trends, aspects, keywords and evaluation"
+                className={`${inputClass} w-24`}
+              >
+                {POLARITY_OPTIONS.map(polarity => <option key={polarity} value={polarity}>{polarity}</option>)}
+              </select>
+              <button onClick={() => removeLabel(index)} title="Remove label" className="p-1 text-slate-400 hover:text-red-500">
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <input
+              type="text"
+              value={label.description ?? ''}
+              onChange={(e) => updateLabel(index, { description: e.target.value || undefined })}
+              placeholder="Description for the model (optional)"
+              className={`${inputClass} w-full text-xs`}
+            />
+          </div>
+        ))}
+        <button onClick={addLabel} className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800">
+          <Plus size={12} /> Add label
+        </button>
+      </div>
+
+      <label className={labelClass}>
+        <span className="flex items-center justify-between">
+          Prompt template
+          <button
+            onClick={() => edit({ promptTemplate: DEFAULT_PROMPT_TEMPLATE })}
+            className="flex items-center gap-1 normal-case font-normal text-slate-400 hover:text-slate-600"
+          >
+            <RotateCcw size={12} /> Default
+          </button>
+        </span>
+        <textarea
+          value={taxonomy.promptTemplate}
+          onChange={(e) => edit({ promptTemplate: e.target.value })}
+          rows={7}
+          className={`${inputClass} mt-1 w-full font-mono text-xs`}
+        />
+      </label>
+      <p className="text-xs text-slate-400">
+        {'{{labels}}'} lists the labels with their descriptions, {'{{examples}}'} the examples below and {'{{tweet}}'} the tweet.
+        Providers add their own output format after it.
+      </p>
+
+      <div className="space-y-2">
+        <span className={labelClass}>Few-shot examples</span>
+        {taxonomy.examples.map((example, index) => (
+          <div key={index} className="flex items-start gap-1.5">
+            <textarea
+              value={example.text}
+              onChange={(e) => updateExample(index, { text: e.target.value })}
+              rows={2}
+              placeholder="Example tweet"
+              className={`${inputClass} flex-1 min-w-0 text-xs`}
+            />
+            <select
+              value={example.label}
+              onChange={(e) => updateExample(index, { label: e.target.value })}
+              className={`${inputClass} w-28 text-xs`}
+            >
+              {!taxonomy.labels.some(label => label.name === example.label) && <option value={example.label}>Pick a label</option>}
+              {taxonomy.labels.map(label => <option key={label.name} value={label.name}>{label.name}</option>)}
+            </select>
+            <button
+              onClick={() => edit({ examples: taxonomy.examples.filter((_, i) => i !== index) })}
+              title="Remove example"
+              className="p-1 text-slate-400 hover:text-red-500"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => edit({ examples: [...taxonomy.examples, { text: '', label: taxonomy.labels[0]?.name ?? '' }] })}
+          className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
+        >
+          <Plus size={12} /> Add example
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
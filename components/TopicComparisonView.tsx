@@ -0,0 +1,64 @@
+import React from 'react';
+import { TopicSummary } from '../types';
+import { TopicSentimentChart } from './Charts';
+import { getTaxonomy } from '../services/settingsService';
+import { labelSeries } from '../services/taxonomyService';
+
+interface TopicComparisonViewProps {
+  summaries: TopicSummary[];
+}
+
+const share = (count: number, total: number) => (total ? Math.round((count / total) * 100) : 0);
+
+export const TopicComparisonView: React.FC<TopicComparisonViewProps> = ({ summaries }) => {
+  const series = labelSeries(getTaxonomy(), summaries.flatMap(s => Object.keys(s.labelCounts)));
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-6 shadow-sm mb-6">
+      <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Topic Comparison</h3>
+      <TopicSentimentChart summaries={summaries} />
+
+      <div className="overflow-x-auto mt-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-slate-400 border-b border-slate-100">
+              <th className="py-2 font-medium">Topic</th>
+              <th className="py-2 font-medium text-right">Tweets</th>
+              {series.map(({ name }) => <th key={name} className="py-2 font-medium text-right">{name}</th>)}
+              {/* Polarity roll-up: share of positive labels minus share of negative labels */}
+              <th className="py-2 font-medium text-right" title="Positive-polarity share minus negative-polarity share">Net polarity</th>
+              <th className="py-2 font-medium pl-6">Top Keywords</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map(s => {
+              const net = share(s.positiveCount, s.totalTweets) - share(s.negativeCount, s.totalTweets);
+              return (
+                <tr key={s.topic} className="border-b border-slate-50 text-slate-700 align-top">
+                  <td className="py-2 font-medium">{s.topic}</td>
+                  <td className="py-2 text-right font-mono text-slate-400">{s.totalTweets}</td>
+                  {series.map(({ name, color }) => (
+                    <td key={name} className="py-2 text-right font-mono" style={{ color }}>{share(s.labelCounts[name] || 0, s.totalTweets)}%</td>
+                  ))}
+                  <td className={`py-2 text-right font-mono font-semibold ${net > 0 ? 'text-green-600' : net < 0 ? 'text-red-600' : 'text-slate-500'}`}>
+                    {net > 0 ? '+' : ''}{net}
+                  </td>
+                  <td className="py-2 pl-6">
+                    <div className="flex flex-wrap gap-1">
+                      {s.commonKeywords.length === 0 && <span className="text-xs text-slate-400">—</span>}
+                      {s.commonKeywords.map(k => (
+                        <span key={k.word} className="px-1.5 py-0.5 bg-blue-50 text-blue-600 rounded text-[10px] font-medium border border-blue-100">
+                          #{k.word} <span className="opacity-60">{k.count}</span>
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
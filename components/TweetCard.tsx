@@ -1,11 +1,45 @@
-import React from 'react';
-import { TweetData, SentimentType } from '../types';
-import { MessageCircle, Heart, Share2, MoreHorizontal } from 'lucide-react';
+import React, { useState } from 'react';
+import { TweetData, SentimentType, SentimentAnalysis, EmotionType, EmotionScores, EvidenceSpan, HumanReview, ComparedTweet, ProviderRunInfo } from '../types';
+import { getDominantEmotion } from '../services/analyticsService';
+import { analysisLabel, reviewLabel, labelColor, findLabel } from '../services/taxonomyService';
+import { getTaxonomy } from '../services/settingsService';
+import { MessageCircle, Heart, Share2, MoreHorizontal, GitCompare, Languages, UserCheck, Pencil } from 'lucide-react';
 
 interface TweetCardProps {
   tweet: TweetData;
+  onReview?: (review?: HumanReview) => void; // Omit to make the card read-only; called without a review to remove it
 }
 
+// Twitter-style relative time: "now", "5m", "3h", "Apr 6" or "Apr 6, 2009"
+const formatTweetTime = (iso: string) => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  const diffMs = Date.now() - date.getTime();
+  if (diffMs >= 0 && diffMs < 60 * 1000) return 'now';
+  if (diffMs >= 0 && diffMs < 60 * 60 * 1000) return `${Math.floor(diffMs / 60000)}m`;
+  if (diffMs >= 0 && diffMs < 24 * 60 * 60 * 1000) return `${Math.floor(diffMs / 3600000)}h`;
+  const sameYear = date.getFullYear() === new Date().getFullYear();
+  return date.toLocaleDateString(undefined, sameYear ? { month: 'short', day: 'numeric' } : { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+/**
+ * English display name for an ISO 639-1 code, falling back to the code itself.
+ */
+export const languageName = (code: string) => {
+  if (code === 'und') return 'Unknown';
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+const ASPECT_COLORS = {
+  [SentimentType.POSITIVE]: 'bg-green-50 text-green-700 border-green-200',
+  [SentimentType.NEGATIVE]: 'bg-red-50 text-red-700 border-red-200',
+  [SentimentType.NEUTRAL]: 'bg-slate-100 text-slate-600 border-slate-200',
+};
+
 const getSentimentEmoji = (sentiment: SentimentType, score: number) => {
   // High confidence (>70%)
   if (score >= 0.7) {
@@ -32,31 +66,153 @@ const getSentimentEmoji = (sentiment: SentimentType, score: number) => {
   return '😶';
 };
 
-const SentimentBadge: React.FC<{ sentiment: SentimentType; score: number }> = ({ sentiment, score }) => {
-  const colors = {
-    [SentimentType.POSITIVE]: 'bg-green-100 text-green-800 border-green-200',
-    [SentimentType.NEGATIVE]: 'bg-red-100 text-red-800 border-red-200',
-    [SentimentType.NEUTRAL]: 'bg-gray-100 text-gray-800 border-gray-200',
-  };
+// Label colors are user-defined hex values, so badges are tinted inline rather than with Tailwind classes
+const labelStyle = (color: string): React.CSSProperties => ({ backgroundColor: `${color}1f`, borderColor: `${color}66` });
+
+const LabelBadge: React.FC<{ analysis: SentimentAnalysis }> = ({ analysis }) => {
+  const label = analysisLabel(analysis);
+  const emoji = getSentimentEmoji(analysis.sentiment, analysis.score);
+
+  return (
+    <span
+      title={label === analysis.sentiment ? undefined : `${label} (${analysis.sentiment})`}
+      style={labelStyle(labelColor(getTaxonomy(), label, analysis.sentiment))}
+      className="px-2 py-0.5 rounded-full text-xs font-medium border text-gray-800 flex items-center gap-1.5 shadow-sm"
+    >
+      <span className="text-base leading-none" role="img" aria-label={analysis.sentiment}>{emoji}</span>
+      <span className="font-semibold">{label}</span>
+      <span className="opacity-70 font-mono text-[10px]">{(analysis.score * 100).toFixed(0)}%</span>
+    </span>
+  );
+};
+
+const EMOTION_STYLES: Record<EmotionType, { emoji: string; className: string }> = {
+  [EmotionType.JOY]: { emoji: '😊', className: 'bg-yellow-50 text-yellow-800 border-yellow-200' },
+  [EmotionType.TRUST]: { emoji: '🤝', className: 'bg-teal-50 text-teal-700 border-teal-200' },
+  [EmotionType.ANTICIPATION]: { emoji: '⏳', className: 'bg-orange-50 text-orange-700 border-orange-200' },
+  [EmotionType.SURPRISE]: { emoji: '😮', className: 'bg-sky-50 text-sky-700 border-sky-200' },
+  [EmotionType.ANGER]: { emoji: '😠', className: 'bg-red-50 text-red-700 border-red-200' },
+  [EmotionType.DISGUST]: { emoji: '🤢', className: 'bg-lime-50 text-lime-800 border-lime-200' },
+  [EmotionType.SADNESS]: { emoji: '😢', className: 'bg-blue-50 text-blue-700 border-blue-200' },
+  [EmotionType.FEAR]: { emoji: '😨', className: 'bg-purple-50 text-purple-700 border-purple-200' },
+};
+
+// Shows the dominant emotion; the tooltip lists every non-zero intensity
+const EmotionBadge: React.FC<{ emotions: EmotionScores }> = ({ emotions }) => {
+  const dominant = getDominantEmotion(emotions);
+  if (!dominant) return null;
 
-  const emoji = getSentimentEmoji(sentiment, score);
+  const style = EMOTION_STYLES[dominant.emotion];
+  const breakdown = (Object.entries(emotions) as [EmotionType, number][])
+    .filter(([, intensity]) => intensity > 0)
+    .sort(([, a], [, b]) => b - a)
+    .map(([emotion, intensity]) => `${emotion} ${(intensity * 100).toFixed(0)}%`)
+    .join(', ');
 
   return (
-    <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${colors[sentiment]} flex items-center gap-1.5 shadow-sm`}>
-      <span className="text-base leading-none" role="img" aria-label={sentiment}>{emoji}</span>
-      <span className="font-semibold">{sentiment}</span>
-      <span className="opacity-70 font-mono text-[10px]">{(score * 100).toFixed(0)}%</span>
+    <span title={breakdown} className={`px-2 py-0.5 rounded-full text-xs font-medium border ${style.className} flex items-center gap-1 shadow-sm capitalize`}>
+      <span className="leading-none" role="img" aria-label={dominant.emotion}>{style.emoji}</span>
+      {dominant.emotion}
+      <span className="opacity-70 font-mono text-[10px]">{(dominant.intensity * 100).toFixed(0)}%</span>
     </span>
   );
 };
 
-export const TweetCard: React.FC<TweetCardProps> = ({ tweet }) => {
+/**
+ * Tweet text with the evidence spans marked green (toward Positive) or red (toward Negative);
+ * stronger spans get a deeper tint, and the tooltip gives each span's signed contribution.
+ */
+const HighlightedText: React.FC<{ text: string; evidence?: EvidenceSpan[] }> = ({ text, evidence = [] }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  evidence.forEach((span, i) => {
+    // Spans are sorted and non-overlapping; skip any that no longer fit the text
+    if (span.start < cursor || span.end > text.length) return;
+    if (span.start > cursor) parts.push(text.slice(cursor, span.start));
+    const positive = span.polarity === SentimentType.POSITIVE;
+    const strong = span.weight >= 0.5;
+    parts.push(
+      <mark
+        key={i}
+        title={`${span.polarity} evidence: ${positive ? '+' : '−'}${span.weight.toFixed(2)}`}
+        className={`rounded px-0.5 -mx-0.5 text-inherit cursor-help ${
+          positive ? (strong ? 'bg-green-200' : 'bg-green-100') : (strong ? 'bg-red-200' : 'bg-red-100')
+        }`}
+      >
+        {text.slice(span.start, span.end)}
+      </mark>
+    );
+    cursor = span.end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+// Inline form for a reviewer's label and note, prefilled from the current review or the model label
+const ReviewEditor: React.FC<{
+  tweet: TweetData;
+  onSave: (review?: HumanReview) => void;
+  onCancel: () => void;
+}> = ({ tweet, onSave, onCancel }) => {
+  const taxonomy = getTaxonomy();
+  const initial = tweet.review ? reviewLabel(tweet.review) : tweet.analysis && analysisLabel(tweet.analysis);
+  const [label, setLabel] = useState(findLabel(taxonomy, initial));
+  const [note, setNote] = useState(tweet.review?.note ?? '');
+
+  return (
+    <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-3 mb-3 text-xs space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold text-indigo-900">Human label:</span>
+        {taxonomy.labels.map(option => (
+          <button
+            key={option.name}
+            onClick={() => setLabel(option)}
+            title={option.description}
+            style={label?.name === option.name ? labelStyle(option.color) : undefined}
+            className={`px-2 py-0.5 rounded-full border font-medium transition-colors ${
+              label?.name === option.name ? 'text-gray-800' : 'bg-white text-slate-500 border-slate-200 hover:border-indigo-300'
+            }`}
+          >
+            {option.name}
+          </button>
+        ))}
+      </div>
+      <input
+        type="text"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note (optional), e.g. why the model was wrong"
+        className="w-full px-2 py-1.5 bg-white border border-indigo-100 rounded-md text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          disabled={!label}
+          onClick={() => label && onSave({ label: label.name, sentiment: label.polarity, note: note.trim() || undefined, reviewedAt: new Date().toISOString() })}
+          className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-md font-medium transition-colors"
+        >
+          Save label
+        </button>
+        <button onClick={onCancel} className="px-3 py-1 text-slate-500 hover:text-slate-700">Cancel</button>
+        {tweet.review && (
+          <button onClick={() => onSave(undefined)} className="ml-auto text-red-500 hover:text-red-700">Remove review</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const TweetCard: React.FC<TweetCardProps> = ({ tweet, onReview }) => {
+  const [showTranslation, setShowTranslation] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const review = tweet.review;
+  const language = tweet.analysis?.language;
+
   return (
     <div className="bg-white border border-gray-100 rounded-xl p-4 shadow-sm hover:shadow-md transition-shadow duration-200">
       <div className="flex gap-3">
         <div className="flex-shrink-0">
           <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-400 to-indigo-500 flex items-center justify-center text-white font-bold">
-            {tweet.author[1].toUpperCase()}
+            {(tweet.author.replace(/^@/, '')[0] || '?').toUpperCase()}
           </div>
         </div>
         <div className="flex-1 min-w-0">
@@ -64,21 +220,99 @@ export const TweetCard: React.FC<TweetCardProps> = ({ tweet }) => {
             <div className="flex items-center gap-2">
               <span className="font-semibold text-gray-900 truncate">Twitter User</span>
               <span className="text-gray-500 text-sm truncate">{tweet.author}</span>
-              <span className="text-gray-400 text-xs">• now</span>
+              <time dateTime={tweet.timestamp} title={new Date(tweet.timestamp).toLocaleString()} className="text-gray-400 text-xs whitespace-nowrap">
+                • {formatTweetTime(tweet.timestamp)}
+              </time>
+            </div>
+            <div className="flex items-center gap-1.5">
+              {tweet.goldLabel && (
+                <span
+                  title="Gold label from the imported dataset"
+                  className={`px-2 py-0.5 rounded-full text-[10px] font-medium border ${
+                    tweet.goldLabel === tweet.analysis?.sentiment
+                      ? 'bg-amber-50 text-amber-700 border-amber-200'
+                      : 'bg-red-50 text-red-600 border-red-200'
+                  }`}
+                >
+                  Gold: {tweet.goldLabel}
+                </span>
+              )}
+              {language && language !== 'en' && (
+                <span
+                  title={`Detected language: ${languageName(language)}`}
+                  className="px-2 py-0.5 rounded-full text-[10px] font-mono font-medium border bg-sky-50 text-sky-700 border-sky-200"
+                >
+                  {language.toUpperCase()}
+                </span>
+              )}
+              {tweet.analysis?.sarcasm?.isSarcastic && (
+                <span
+                  title={`Sarcasm detected (${(tweet.analysis.sarcasm.confidence * 100).toFixed(0)}% confidence)${
+                    tweet.analysis.sarcasm.literalSentiment ? `; literal reading: ${tweet.analysis.sarcasm.literalSentiment}` : ''
+                  }`}
+                  className="px-2 py-0.5 rounded-full text-[10px] font-medium border bg-fuchsia-50 text-fuchsia-700 border-fuchsia-200 flex items-center gap-1"
+                >
+                  <span role="img" aria-label="sarcastic">🙃</span> Sarcastic
+                </span>
+              )}
+              {tweet.analysis?.emotions && <EmotionBadge emotions={tweet.analysis.emotions} />}
+              {tweet.analysis && <LabelBadge analysis={tweet.analysis} />}
+              {review && (
+                <span
+                  title={`Human label${
+                    !tweet.analysis ? '' : reviewLabel(review) === analysisLabel(tweet.analysis) ? ' (agrees with the model)' : ` (model said ${analysisLabel(tweet.analysis)})`
+                  }`}
+                  style={labelStyle(labelColor(getTaxonomy(), reviewLabel(review), review.sentiment))}
+                  className="px-2 py-0.5 rounded-full text-xs font-medium border text-gray-800 flex items-center gap-1 shadow-sm"
+                >
+                  <UserCheck size={12} /> {reviewLabel(review)}
+                </span>
+              )}
             </div>
-            {tweet.analysis && (
-              <SentimentBadge sentiment={tweet.analysis.sentiment} score={tweet.analysis.score} />
-            )}
           </div>
           
           <p className="text-gray-800 text-sm leading-relaxed mb-3">
-            {tweet.text}
+            <HighlightedText text={tweet.text} evidence={tweet.analysis?.evidence} />
           </p>
+
+          {tweet.analysis?.translation && (
+            <div className="mb-3">
+              <button
+                onClick={() => setShowTranslation(!showTranslation)}
+                className="flex items-center gap-1 text-xs text-sky-600 hover:text-sky-800"
+              >
+                <Languages size={12} /> {showTranslation ? 'Hide translation' : 'Show translation'}
+              </button>
+              {showTranslation && (
+                <p className="text-gray-600 text-sm leading-relaxed mt-1 pl-3 border-l-2 border-sky-100">{tweet.analysis.translation}</p>
+              )}
+            </div>
+          )}
           
+          {tweet.error && (
+            <div className="bg-red-50 rounded-lg p-3 text-xs mb-3 border border-red-100 text-red-700">
+              <p className="font-semibold mb-1">Analysis Failed:</p>
+              <p>{tweet.error}</p>
+            </div>
+          )}
+
           {tweet.analysis && (
             <div className="bg-slate-50 rounded-lg p-3 text-xs mb-3 border border-slate-100">
               <p className="font-semibold text-slate-700 mb-1">Analysis Reasoning:</p>
               <p className="text-slate-600 italic mb-2">"{tweet.analysis.reasoning}"</p>
+              {tweet.analysis.aspects && tweet.analysis.aspects.length > 0 && (
+                <div className="flex flex-wrap gap-1 mb-2">
+                  {tweet.analysis.aspects.map(a => (
+                    <span
+                      key={a.aspect}
+                      title={`${a.sentiment} toward "${a.aspect}" (${(a.score * 100).toFixed(0)}% confidence)`}
+                      className={`px-1.5 py-0.5 rounded text-[10px] font-medium border ${ASPECT_COLORS[a.sentiment]}`}
+                    >
+                      {a.aspect}: {a.sentiment}
+                    </span>
+                  ))}
+                </div>
+              )}
               <div className="flex flex-wrap gap-1">
                 {tweet.analysis.keywords.map((kw, i) => (
                   <span key={i} className="px-1.5 py-0.5 bg-blue-50 text-blue-600 rounded text-[10px] font-medium border border-blue-100">
@@ -89,14 +323,96 @@ export const TweetCard: React.FC<TweetCardProps> = ({ tweet }) => {
             </div>
           )}
 
+          {review?.note && !isReviewing && (
+            <p className="text-xs text-indigo-800 bg-indigo-50 border border-indigo-100 rounded-lg px-3 py-2 mb-3">
+              <span className="font-semibold">Reviewer note:</span> {review.note}
+            </p>
+          )}
+
+          {isReviewing && onReview && (
+            <ReviewEditor
+              tweet={tweet}
+              onSave={(next) => { onReview(next); setIsReviewing(false); }}
+              onCancel={() => setIsReviewing(false)}
+            />
+          )}
+
           <div className="flex justify-between text-gray-400 max-w-xs">
             <button className="hover:text-blue-500 transition-colors"><MessageCircle size={16} /></button>
             <button className="hover:text-green-500 transition-colors"><Share2 size={16} /></button>
             <button className="hover:text-red-500 transition-colors"><Heart size={16} /></button>
             <button className="hover:text-blue-500 transition-colors"><MoreHorizontal size={16} /></button>
+            {onReview && !isReviewing && (
+              <button
+                onClick={() => setIsReviewing(true)}
+                title={review ? 'Edit the human label' : 'Correct the model label'}
+                className="flex items-center gap-1 text-xs hover:text-indigo-600 transition-colors"
+              >
+                <Pencil size={14} /> {review ? 'Edit label' : 'Relabel'}
+              </button>
+            )}
           </div>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+/**
+ * True when the providers that analyzed the tweet successfully returned different labels.
+ */
+export const hasDisagreement = (tweet: ComparedTweet) =>
+  new Set(Object.values(tweet.results).flatMap(r => (r.analysis ? [analysisLabel(r.analysis)] : []))).size > 1;
+
+interface SplitTweetCardProps {
+  tweet: ComparedTweet;
+  providers: ProviderRunInfo[];
+}
+
+// One tweet with a column per provider; disagreements get an amber frame
+export const SplitTweetCard: React.FC<SplitTweetCardProps> = ({ tweet, providers }) => {
+  const disagrees = hasDisagreement(tweet);
+
+  return (
+    <div className={`bg-white border rounded-xl p-4 shadow-sm ${disagrees ? 'border-amber-300 ring-1 ring-amber-200' : 'border-gray-100'}`}>
+      <div className="flex items-center justify-between mb-2 gap-2">
+        <span className="text-gray-500 text-sm truncate">{tweet.author}</span>
+        <div className="flex items-center gap-1.5">
+          {tweet.goldLabel && (
+            <span className="px-2 py-0.5 rounded-full text-[10px] font-medium border bg-amber-50 text-amber-700 border-amber-200">
+              Gold: {tweet.goldLabel}
+            </span>
+          )}
+          {disagrees && (
+            <span className="px-2 py-0.5 rounded-full text-[10px] font-semibold border bg-amber-100 text-amber-800 border-amber-300 flex items-center gap-1">
+              <GitCompare size={12} /> Disagreement
+            </span>
+          )}
+        </div>
+      </div>
+
+      <p className="text-gray-800 text-sm leading-relaxed mb-3">{tweet.text}</p>
+
+      <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${providers.length}, minmax(0, 1fr))` }}>
+        {providers.map(p => {
+          const outcome = tweet.results[p.id];
+          return (
+            <div key={p.id} className="bg-slate-50 rounded-lg p-2.5 border border-slate-100 text-xs min-w-0">
+              <p className="font-semibold text-slate-700 truncate mb-1.5" title={`${p.label} / ${p.model}`}>{p.label}</p>
+              {outcome?.analysis ? (
+                <>
+                  <div className="flex mb-1.5">
+                    <LabelBadge analysis={outcome.analysis} />
+                  </div>
+                  <p className="text-slate-500 italic line-clamp-3" title={outcome.analysis.reasoning}>{outcome.analysis.reasoning}</p>
+                </>
+              ) : (
+                <p className="text-red-600">{outcome?.error || 'No result'}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
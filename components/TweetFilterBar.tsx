@@ -0,0 +1,131 @@
+import React from 'react';
+import { TweetFilters, TweetSortKey } from '../types';
+import { DEFAULT_TWEET_FILTERS, hasActiveFilters } from '../services/tweetFilterService';
+import { getTaxonomy } from '../services/settingsService';
+import { Search, X } from 'lucide-react';
+
+interface TweetFilterBarProps {
+  filters: TweetFilters;
+  onChange: (filters: TweetFilters) => void;
+  sort: TweetSortKey;
+  onSortChange: (sort: TweetSortKey) => void;
+  shown: number;
+  total: number;
+}
+
+const SORT_OPTIONS: { value: TweetSortKey; label: string }[] = [
+  { value: 'arrival', label: 'Stream order' },
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'score-desc', label: 'Highest confidence' },
+  { value: 'score-asc', label: 'Lowest confidence' }
+];
+
+const fieldClass = "px-2 py-1.5 bg-white border border-slate-200 rounded-md text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/30";
+const labelClass = "text-[10px] font-semibold text-slate-400 uppercase tracking-wide";
+
+// Percent input for one end of the confidence range
+const percentValue = (value: string, fallback: number) => {
+  const percent = Number(value);
+  return value.trim() === '' || !Number.isFinite(percent) ? fallback : Math.min(100, Math.max(0, percent)) / 100;
+};
+
+export const TweetFilterBar: React.FC<TweetFilterBarProps> = ({ filters, onChange, sort, onSortChange, shown, total }) => {
+  const update = (changes: Partial<TweetFilters>) => onChange({ ...filters, ...changes });
+  // "All" plus the labels of the active taxonomy, each tinted with its color when selected
+  const labelOptions = [{ value: null, color: undefined }, ...getTaxonomy().labels.map(label => ({ value: label.name, color: label.color }))];
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-3 mb-4 shadow-sm space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[180px]">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="text"
+            value={filters.search}
+            onChange={(e) => update({ search: e.target.value })}
+            placeholder="Search tweets, translations and reasoning"
+            className={`${fieldClass} w-full pl-8`}
+          />
+        </div>
+        <div className="flex flex-wrap bg-slate-100 p-0.5 rounded-lg">
+          {labelOptions.map(option => {
+            const isActive = filters.label === option.value;
+            return (
+              <button
+                key={option.value ?? 'all'}
+                onClick={() => update({ label: option.value })}
+                style={isActive && option.color ? { backgroundColor: `${option.color}33` } : undefined}
+                className={`px-2.5 py-1 rounded-md text-xs font-medium transition-all ${
+                  isActive ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {option.value ?? 'All'}
+              </button>
+            );
+          })}
+        </div>
+        <select value={sort} onChange={(e) => onSortChange(e.target.value as TweetSortKey)} className={fieldClass}>
+          {SORT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <label className={`flex flex-col gap-1 ${labelClass}`}>
+          Keyword
+          <input
+            type="text"
+            value={filters.keyword}
+            onChange={(e) => update({ keyword: e.target.value })}
+            placeholder="battery life"
+            className={`${fieldClass} w-36 normal-case font-normal`}
+          />
+        </label>
+        <label className={`flex flex-col gap-1 ${labelClass}`}>
+          Author
+          <input
+            type="text"
+            value={filters.author}
+            onChange={(e) => update({ author: e.target.value })}
+            placeholder="@user"
+            className={`${fieldClass} w-32 normal-case font-normal`}
+          />
+        </label>
+        <label className={`flex flex-col gap-1 ${labelClass}`}>
+          Confidence %
+          <span className="flex items-center gap-1 normal-case font-normal">
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={Math.round(filters.minScore * 100)}
+              onChange={(e) => update({ minScore: percentValue(e.target.value, 0) })}
+              className={`${fieldClass} w-16`}
+            />
+            <span className="text-slate-400">to</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={Math.round(filters.maxScore * 100)}
+              onChange={(e) => update({ maxScore: percentValue(e.target.value, 1) })}
+              className={`${fieldClass} w-16`}
+            />
+          </span>
+        </label>
+        <div className="flex-1" />
+        <span className="text-xs text-slate-500 pb-2">
+          {shown === total ? `${total} tweets` : `${shown} of ${total} tweets`}
+        </span>
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => onChange(DEFAULT_TWEET_FILTERS)}
+            className="flex items-center gap-1 px-2 py-1.5 text-xs text-slate-500 hover:text-slate-800 hover:bg-slate-100 rounded-md"
+          >
+            <X size={12} /> Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  estimatedHeight: number; // Used for rows that have not been measured yet
+  gap?: number; // Vertical space between rows, in px
+  overscan?: number; // Extra px rendered above and below the viewport
+}
+
+/**
+ * Window-scrolled list that only mounts the rows near the viewport. Rows may have any
+ * height: each one is measured once rendered (and re-measured when it resizes), keyed by
+ * `getKey` so measurements survive filtering and re-sorting.
+ */
+export const VirtualList = <T,>({ items, getKey, renderItem, estimatedHeight, gap = 16, overscan = 800 }: VirtualListProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const observed = useRef(new Map<Element, string>());
+  const mounted = useRef(new Map<string, Element>());
+  const rowRefs = useRef(new Map<string, (element: HTMLDivElement | null) => void>());
+  const [viewport, setViewport] = useState({ top: 0, bottom: typeof window === 'undefined' ? 1000 : window.innerHeight });
+  const [, setMeasureVersion] = useState(0);
+
+  // Visible window relative to the top of the list
+  const updateViewport = () => {
+    const top = containerRef.current?.getBoundingClientRect().top ?? 0;
+    setViewport({ top: -top, bottom: window.innerHeight - top });
+  };
+
+  useLayoutEffect(updateViewport, [items]);
+
+  useEffect(() => {
+    window.addEventListener('scroll', updateViewport, { passive: true });
+    window.addEventListener('resize', updateViewport);
+    return () => {
+      window.removeEventListener('scroll', updateViewport);
+      window.removeEventListener('resize', updateViewport);
+    };
+  }, []);
+
+  // Created after mount and disconnected on unmount; rows mounted before it exists are observed on creation
+  const resizeObserver = useRef<ResizeObserver | null>(null);
+  useEffect(() => {
+    const observer = new ResizeObserver(entries => {
+      let changed = false;
+      entries.forEach(entry => {
+        const key = observed.current.get(entry.target);
+        const height = (entry.target as HTMLElement).offsetHeight;
+        if (key !== undefined && height > 0 && heights.current.get(key) !== height) {
+          heights.current.set(key, height);
+          changed = true;
+        }
+      });
+      if (changed) setMeasureVersion(v => v + 1);
+    });
+    mounted.current.forEach(element => observer.observe(element));
+    resizeObserver.current = observer;
+    return () => {
+      observer.disconnect();
+      resizeObserver.current = null;
+    };
+  }, []);
+
+  // Rows that scroll out of the window (or the list itself) unmount with a null ref; stop observing them
+  const measure = (key: string, element: HTMLDivElement | null) => {
+    const previous = mounted.current.get(key);
+    if (previous && previous !== element) {
+      resizeObserver.current?.unobserve(previous);
+      observed.current.delete(previous);
+      mounted.current.delete(key);
+    }
+    if (!element) rowRefs.current.delete(key);
+    if (!element || previous === element) return;
+    mounted.current.set(key, element);
+    observed.current.set(element, key);
+    resizeObserver.current?.observe(element);
+  };
+
+  // One stable callback per row key, so React does not detach and re-attach every ref on each render
+  const measureRef = (key: string) => {
+    let ref = rowRefs.current.get(key);
+    if (!ref) {
+      ref = element => measure(key, element);
+      rowRefs.current.set(key, ref);
+    }
+    return ref;
+  };
+
+  // Row offsets from the measured (or estimated) heights
+  const offsets = new Array<number>(items.length + 1);
+  offsets[0] = 0;
+  items.forEach((item, i) => {
+    offsets[i + 1] = offsets[i] + (heights.current.get(getKey(item)) ?? estimatedHeight) + gap;
+  });
+  const totalHeight = Math.max(0, offsets[items.length] - gap);
+
+  // First row ending below the window top, by binary search; rows are then added until past the bottom
+  const windowTop = viewport.top - overscan;
+  const windowBottom = viewport.bottom + overscan;
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= windowTop) low = mid + 1;
+    else high = mid;
+  }
+  const start = low;
+  let end = start;
+  while (end < items.length && offsets[end] < windowBottom) end++;
+
+  return (
+    <div ref={containerRef} style={{ height: totalHeight, position: 'relative' }}>
+      {items.slice(start, end).map((item, i) => {
+        const key = getKey(item);
+        return (
+          <div
+            key={key}
+            ref={measureRef(key)}
+            style={{ position: 'absolute', top: offsets[start + i], left: 0, right: 0 }}
+          >
+            {renderItem(item)}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { RuntimeSettings, LabelTaxonomy } from "../types";
+import { getProvider, listProviders, SentimentProvider } from "../services/providers";
+import { DEFAULT_SETTINGS, setSettingsSource } from "../services/settingsService";
+import { validateTaxonomy } from "../services/taxonomyService";
+import { createRateLimiter } from "./rateLimiter";
+
+/**
+ * API proxy: holds the provider keys and makes the provider calls for the browser, which
+ * then never sees a key. Configuration comes from the environment:
+ *   PROXY_PORT (or PORT)   listen port (default 8787; vite.config.ts reads PROXY_PORT too)
+ *   GEMINI_API_KEY, ...    `<PROVIDER ID>_API_KEY` for each provider that needs a key
+ *   RATE_LIMIT_PER_MINUTE  requests per client per minute (default 120)
+ *   ALLOWED_ORIGIN         enables CORS for this origin, for UIs not served through Vite's /api proxy
+ *   TRUST_PROXY=1          identify clients by X-Forwarded-For when running behind a reverse proxy
+ * With `--stub` (or PROXY_STUB=1) every provider is answered by the offline classifier,
+ * so the proxy transport can be developed without keys or network access.
+ */
+
+const PORT = Number(process.env.PROXY_PORT || process.env.PORT) || 8787;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 120;
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || "";
+const TRUST_PROXY = process.env.TRUST_PROXY === "1";
+const STUB = process.argv.includes("--stub") || process.env.PROXY_STUB === "1";
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_TOKENS = 8192;
+const MAX_GENERATE_COUNT = 50; // Matches the largest batch the settings panel allows
+
+// Errors carry `status` the same way provider errors do, so one handler reports both
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+// Settings sent with the request currently being handled; providers read them through settingsService
+const requestSettings = new AsyncLocalStorage<RuntimeSettings>();
+
+setSettingsSource({
+  getSettings: () => requestSettings.getStore() ?? DEFAULT_SETTINGS,
+  getApiKey: (providerId) => process.env[`${providerId.toUpperCase()}_API_KEY`] || undefined
+});
+
+const limiter = createRateLimiter(RATE_LIMIT_PER_MINUTE);
+
+const clientId = (req: IncomingMessage) => {
+  const forwarded = TRUST_PROXY ? String(req.headers["x-forwarded-for"] ?? "").split(",")[0].trim() : "";
+  return forwarded || req.socket.remoteAddress || "unknown";
+};
+
+const readBody = async (req: IncomingMessage): Promise<any> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw httpError(413, "Request body too large.");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+  } catch {
+    throw httpError(400, "Request body must be JSON.");
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/**
+ * Only providers that need a key are served: the keyless ones run in the browser directly,
+ * and the proxy should not become a relay to arbitrary endpoints.
+ */
+const resolveBackend = (id: unknown): SentimentProvider => {
+  const provider = typeof id === "string" ? listProviders().find(p => p.id === id) : undefined;
+  if (!provider || !provider.requiresKey) throw httpError(400, `Unsupported provider: ${String(id)}`);
+  return STUB ? getProvider("offline") : provider;
+};
+
+// The client's label taxonomy, or the default sentiment one when none is sent
+const taxonomyFor = (value: unknown): LabelTaxonomy => {
+  if (value === undefined) return DEFAULT_SETTINGS.taxonomy;
+  const problem = validateTaxonomy(value as LabelTaxonomy);
+  if (problem) throw httpError(400, `Invalid taxonomy: ${problem}`);
+  return value as LabelTaxonomy;
+};
+
+const settingsFor = (body: any): RuntimeSettings => ({
+  ...DEFAULT_SETTINGS,
+  providers: typeof body.model === "string" && body.model ? { [body.provider]: { model: body.model } } : {},
+  temperature: clamp(body.temperature, 0, 2, DEFAULT_SETTINGS.temperature),
+  maxTokens: Math.floor(clamp(body.maxTokens, 256, MAX_TOKENS, DEFAULT_SETTINGS.maxTokens)),
+  taxonomy: taxonomyFor(body.taxonomy)
+});
+
+const requireString = (value: unknown, name: string): string => {
+  if (typeof value !== "string" || !value.trim()) throw httpError(400, `Missing "${name}".`);
+  return value;
+};
+
+/**
+ * Relays a generation stream as a chunked text body. The first chunk is awaited before the
+ * headers go out, so failures such as a missing key still get a proper error status.
+ */
+const streamGeneration = async (res: ServerResponse, backend: SentimentProvider, topic: string, count: number) => {
+  const stream = backend.generateStream
+    ? backend.generateStream(topic, count)
+    : (async function* () { yield JSON.stringify(await backend.generate(topic, count)); })();
+  const iterator = stream[Symbol.asyncIterator]();
+  let next = await iterator.next();
+
+  res.writeHead(200, { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "no-store" });
+  try {
+    while (!next.done) {
+      res.write(next.value);
+      next = await iterator.next();
+    }
+    res.end();
+  } catch (error) {
+    console.error("Stream failed", error);
+    res.destroy(); // The client sees a truncated body and keeps what it already parsed
+  }
+};
+
+const routes: Record<string, (body: any, res: ServerResponse) => Promise<void>> = {
+  analyze: async (body, res) => {
+    const result = await resolveBackend(body.provider).analyze(requireString(body.text, "text"));
+    // Tells the client not to cache the offline answer under the real provider's key
+    sendJson(res, 200, STUB ? { result, stub: true } : { result });
+  },
+
+  generate: async (body, res) => {
+    const backend = resolveBackend(body.provider);
+    const topic = requireString(body.topic, "topic");
+    const count = Math.floor(clamp(body.count, 1, MAX_GENERATE_COUNT, 10));
+    if (body.stream) return streamGeneration(res, backend, topic, count);
+    sendJson(res, 200, { result: await backend.generate(topic, count) });
+  },
+
+  explain: async (body, res) => {
+    const result = await resolveBackend(body.provider).explain(requireString(body.concept, "concept"));
+    sendJson(res, 200, { result });
+  }
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  if (ALLOWED_ORIGIN) {
+    res.setHeader("Access-Control-Allow-Origin", ALLOWED_ORIGIN);
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    if (req.method === "OPTIONS") return void res.writeHead(204).end();
+  }
+
+  const path = new URL(req.url ?? "/", "http://localhost").pathname.replace(/\/+$/, "");
+
+  if (req.method === "GET" && path === "/api/providers") {
+    return sendJson(res, 200, listProviders().filter(p => p.requiresKey).map(p => ({
+      id: p.id,
+      label: p.label,
+      available: STUB || p.hasKey()
+    })));
+  }
+
+  const name = path.startsWith("/api/") ? path.slice(5) : "";
+  const route = Object.hasOwn(routes, name) ? routes[name] : undefined;
+  if (!route) return sendJson(res, 404, { error: "Not found." });
+  if (req.method !== "POST") return sendJson(res, 405, { error: "Method not allowed." });
+
+  const { allowed, retryAfterMs } = limiter.take(clientId(req));
+  if (!allowed) {
+    res.setHeader("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+    return sendJson(res, 429, { error: "Too many requests. Slow down and try again shortly." });
+  }
+
+  try {
+    const body = await readBody(req);
+    await requestSettings.run(settingsFor(body), () => route(body, res));
+  } catch (error: any) {
+    if (res.headersSent) return;
+    // Not retryable on the client: the server's configuration has to change
+    if (error.message === "API_KEY_MISSING") return sendJson(res, 401, { error: "API_KEY_MISSING" });
+    // Keep the provider's status (e.g. its own 429) so the client can decide whether to retry
+    const status = typeof error.status === "number" && error.status >= 400 && error.status < 600 ? error.status : 502;
+    if (status >= 500) console.error(`${path} failed`, error);
+    sendJson(res, status, { error: error.message || "Provider request failed." });
+  }
+};
+
+createServer((req, res) => void handle(req, res)).listen(PORT, () => {
+  const keyed = listProviders().filter(p => p.requiresKey && p.hasKey()).map(p => p.id);
+  console.log(`SentimAI API proxy listening on http://localhost:${PORT}/api`);
+  console.log(STUB
+    ? "Stub mode: every provider is answered by the offline classifier."
+    : `Providers with a key: ${keyed.length ? keyed.join(", ") : "none (set e.g. GEMINI_API_KEY)"}`);
+  console.log(`Rate limit: ${RATE_LIMIT_PER_MINUTE} requests per client per minute.`);
+});
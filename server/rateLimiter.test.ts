@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { createRateLimiter } from "./rateLimiter";
+
+describe("createRateLimiter", () => {
+  it("allows a burst of perMinute requests, then asks the client to wait", () => {
+    const limiter = createRateLimiter(3);
+    const now = 1_000_000;
+    expect([1, 2, 3].map(() => limiter.take("a", now).allowed)).toEqual([true, true, true]);
+    // One token refills every 20s
+    expect(limiter.take("a", now)).toEqual({ allowed: false, retryAfterMs: 20_000 });
+  });
+
+  it("refills tokens over time", () => {
+    const limiter = createRateLimiter(60);
+    const now = 1_000_000;
+    for (let i = 0; i < 60; i++) limiter.take("a", now);
+    expect(limiter.take("a", now).allowed).toBe(false);
+    expect(limiter.take("a", now + 500)).toEqual({ allowed: false, retryAfterMs: 500 });
+    expect(limiter.take("a", now + 1000).allowed).toBe(true);
+  });
+
+  it("keeps a bucket per client", () => {
+    const limiter = createRateLimiter(1);
+    const now = 1_000_000;
+    expect(limiter.take("a", now).allowed).toBe(true);
+    expect(limiter.take("a", now).allowed).toBe(false);
+    expect(limiter.take("b", now).allowed).toBe(true);
+  });
+});
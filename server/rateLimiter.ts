@@ -0,0 +1,37 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // How long until the next request would be allowed; 0 when allowed
+}
+
+/**
+ * Per-client token bucket: each client may burst up to `perMinute` requests and then
+ * gets one more every `60s / perMinute`. Buckets that have refilled completely carry
+ * no state worth keeping and are dropped periodically.
+ */
+export const createRateLimiter = (perMinute: number) => {
+  const refillPerMs = perMinute / 60_000;
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  const take = (clientId: string, now = Date.now()): RateLimitResult => {
+    const bucket = buckets.get(clientId) ?? { tokens: perMinute, updatedAt: now };
+    bucket.tokens = Math.min(perMinute, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    buckets.set(clientId, bucket);
+
+    if (bucket.tokens < 1) {
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    }
+    bucket.tokens -= 1;
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [clientId, bucket] of buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= perMinute) buckets.delete(clientId);
+    }
+  }, 60_000);
+  sweep.unref(); // Never keeps the process alive on its own
+
+  return { take };
+};
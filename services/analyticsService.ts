@@ -0,0 +1,209 @@
+import { SentimentType, EmotionType, EmotionScores, EmotionProfilePoint, TweetData, TopicSummary, TrendGranularity, TrendPoint, AspectSummary, LanguageBreakdownRow, ReviewSummary, LabelTaxonomy, PieChartData } from "../types";
+import { analysisLabel, reviewLabel, labelColor } from "./taxonomyService";
+
+/**
+ * Counts model keywords across tweets (case-insensitive) and returns the most frequent ones.
+ */
+export const getTopKeywords = (tweets: TweetData[], limit = 5): { word: string; count: number }[] => {
+  const keywordCounts = tweets.reduce((acc, tweet) => {
+    tweet.analysis?.keywords.forEach(kw => {
+      const lower = kw.toLowerCase();
+      acc[lower] = (acc[lower] || 0) + 1;
+    });
+    return acc;
+  }, {} as Record<string, number>);
+
+  return Object.entries(keywordCounts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .map(([word, count]) => ({ word, count }));
+};
+
+/**
+ * Aggregates analyzed tweets into a TopicSummary. Tweets whose analysis failed are not counted.
+ */
+export const buildTopicSummary = (topic: string, tweets: TweetData[], keywordLimit = 5): TopicSummary => {
+  const analyzed = tweets.filter(t => t.analysis);
+  const countOf = (sentiment: SentimentType) => analyzed.filter(t => t.analysis?.sentiment === sentiment).length;
+
+  return {
+    topic,
+    totalTweets: analyzed.length,
+    positiveCount: countOf(SentimentType.POSITIVE),
+    negativeCount: countOf(SentimentType.NEGATIVE),
+    neutralCount: countOf(SentimentType.NEUTRAL),
+    labelCounts: analyzed.reduce((acc, t) => {
+      const label = analysisLabel(t.analysis!);
+      acc[label] = (acc[label] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>),
+    sarcasticCount: analyzed.filter(t => t.analysis?.sarcasm?.isSarcastic).length,
+    commonKeywords: getTopKeywords(analyzed, keywordLimit)
+  };
+};
+
+/**
+ * Aggregates per-aspect sentiment across tweets and returns the most mentioned aspects.
+ */
+export const buildAspectSummary = (tweets: TweetData[], limit = 8): AspectSummary[] => {
+  const summaries = new Map<string, AspectSummary & { scoreSum: number }>();
+
+  tweets.forEach(tweet => {
+    tweet.analysis?.aspects?.forEach(({ aspect, sentiment, score }) => {
+      const key = aspect.toLowerCase();
+      const entry = summaries.get(key) || { aspect: key, total: 0, positive: 0, neutral: 0, negative: 0, avgScore: 0, scoreSum: 0 };
+      entry.total++;
+      entry.scoreSum += score;
+      if (sentiment === SentimentType.POSITIVE) entry.positive++;
+      else if (sentiment === SentimentType.NEGATIVE) entry.negative++;
+      else entry.neutral++;
+      summaries.set(key, entry);
+    });
+  });
+
+  return Array.from(summaries.values())
+    .sort((a, b) => b.total - a.total)
+    .slice(0, limit)
+    .map(({ scoreSum, ...entry }) => ({ ...entry, avgScore: Math.round((scoreSum / entry.total) * 100) / 100 }));
+};
+
+/**
+ * Returns the strongest emotion of a tweet, or undefined when every intensity is 0.
+ */
+export const getDominantEmotion = (emotions?: EmotionScores): { emotion: EmotionType; intensity: number } | undefined => {
+  if (!emotions) return undefined;
+  const [emotion, intensity] = (Object.entries(emotions) as [EmotionType, number][])
+    .reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  return intensity > 0 ? { emotion, intensity } : undefined;
+};
+
+/**
+ * Averages each emotion's intensity over the tweets that carry emotion scores and counts
+ * how many tweets each emotion dominates. Returned in EmotionType order for a stable radar layout.
+ */
+export const buildEmotionProfile = (tweets: TweetData[]): EmotionProfilePoint[] => {
+  const scored = tweets.map(t => t.analysis?.emotions).filter((e): e is EmotionScores => !!e);
+  if (scored.length === 0) return [];
+
+  return Object.values(EmotionType).map(emotion => ({
+    emotion,
+    intensity: Math.round((scored.reduce((acc, e) => acc + (e[emotion] || 0), 0) / scored.length) * 100) / 100,
+    dominantCount: scored.filter(e => getDominantEmotion(e)?.emotion === emotion).length
+  }));
+};
+
+/**
+ * One TopicSummary per topic, in order of first appearance. Tweets without a topic are
+ * grouped under `fallbackTopic`.
+ */
+export const buildTopicSummaries = (tweets: TweetData[], fallbackTopic: string, keywordLimit = 5): TopicSummary[] => {
+  const groups = new Map<string, TweetData[]>();
+  tweets.forEach(tweet => {
+    const topic = tweet.topic || fallbackTopic;
+    const group = groups.get(topic);
+    if (group) group.push(tweet);
+    else groups.set(topic, [tweet]);
+  });
+  return Array.from(groups.entries()).map(([topic, group]) => buildTopicSummary(topic, group, keywordLimit));
+};
+
+/**
+ * Sentiment counts per detected language, most frequent language first. Analyses without
+ * a language are grouped under "und" (undetermined).
+ */
+export const buildLanguageBreakdown = (tweets: TweetData[]): LanguageBreakdownRow[] => {
+  const rows = new Map<string, LanguageBreakdownRow>();
+
+  tweets.forEach(tweet => {
+    if (!tweet.analysis) return;
+    const language = tweet.analysis.language || 'und';
+    const row = rows.get(language) || { language, total: 0, positive: 0, neutral: 0, negative: 0 };
+    row.total++;
+    if (tweet.analysis.sentiment === SentimentType.POSITIVE) row.positive++;
+    else if (tweet.analysis.sentiment === SentimentType.NEGATIVE) row.negative++;
+    else row.neutral++;
+    rows.set(language, row);
+  });
+
+  return Array.from(rows.values()).sort((a, b) => b.total - a.total);
+};
+
+/**
+ * Tweet counts per label, in the taxonomy's order. Labels from another taxonomy (e.g. an
+ * older session) follow, colored by their polarity.
+ */
+export const buildLabelDistribution = (tweets: TweetData[], taxonomy: LabelTaxonomy): PieChartData[] => {
+  const counts = new Map<string, PieChartData>(taxonomy.labels.map(label => [label.name, { name: label.name, value: 0, color: label.color }]));
+  tweets.forEach(tweet => {
+    if (!tweet.analysis) return; // Skip tweets whose analysis failed
+    const name = analysisLabel(tweet.analysis);
+    const entry = counts.get(name) ?? { name, value: 0, color: labelColor(taxonomy, name, tweet.analysis.sentiment) };
+    entry.value++;
+    counts.set(name, entry);
+  });
+  return Array.from(counts.values()).filter(entry => entry.value > 0);
+};
+
+/**
+ * How often the model label matches the reviewer's, over tweets that carry both.
+ */
+export const buildReviewSummary = (tweets: TweetData[]): ReviewSummary => {
+  const reviewed = tweets.filter(t => t.review && t.analysis);
+  const agreed = reviewed.filter(t => reviewLabel(t.review!) === analysisLabel(t.analysis!)).length;
+  return { reviewed: reviewed.length, agreed, agreement: reviewed.length ? agreed / reviewed.length : 0 };
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const bucketStart = (date: Date, granularity: TrendGranularity) => {
+  const start = new Date(date);
+  start.setMinutes(0, 0, 0);
+  if (granularity === 'day') start.setHours(0);
+  return start.toISOString();
+};
+
+/**
+ * Picks hourly buckets for datasets spanning up to two days, daily buckets otherwise.
+ */
+export const suggestGranularity = (tweets: TweetData[]): TrendGranularity => {
+  const times = tweets.map(t => new Date(t.timestamp).getTime()).filter(t => !isNaN(t));
+  if (times.length === 0) return 'day';
+  return Math.max(...times) - Math.min(...times) <= 48 * HOUR_MS ? 'hour' : 'day';
+};
+
+/**
+ * Buckets analyzed tweets by hour or day (local time) and computes each label's share.
+ * Only buckets that contain tweets are returned. The rolling average pools the tweets of
+ * the last `window` buckets, so sparse buckets don't swing the line.
+ */
+export const buildLabelTrend = (tweets: TweetData[], granularity: TrendGranularity, window = 3): TrendPoint[] => {
+  const buckets = new Map<string, { total: number; counts: Map<string, number> }>();
+  const labels = new Set<string>();
+
+  tweets.forEach(tweet => {
+    const date = new Date(tweet.timestamp);
+    if (!tweet.analysis || isNaN(date.getTime())) return;
+    const key = bucketStart(date, granularity);
+    const bucket = buckets.get(key) || { total: 0, counts: new Map<string, number>() };
+    const label = analysisLabel(tweet.analysis);
+    bucket.total++;
+    bucket.counts.set(label, (bucket.counts.get(label) || 0) + 1);
+    labels.add(label);
+    buckets.set(key, bucket);
+  });
+
+  const sorted = Array.from(buckets.entries()).sort(([a], [b]) => a.localeCompare(b));
+  const share = (count: number, total: number) => (total ? Math.round((count / total) * 1000) / 10 : 0);
+
+  return sorted.map(([bucket, { total, counts }], i) => {
+    const trailing = sorted.slice(Math.max(0, i - window + 1), i + 1).map(([, b]) => b);
+    const windowTotal = trailing.reduce((acc, b) => acc + b.total, 0);
+    const shares: Record<string, number> = {};
+    const averages: Record<string, number> = {};
+    labels.forEach(label => {
+      shares[label] = share(counts.get(label) || 0, total);
+      averages[label] = share(trailing.reduce((acc, b) => acc + (b.counts.get(label) || 0), 0), windowTotal);
+    });
+    return { bucket, total, shares, averages };
+  });
+};
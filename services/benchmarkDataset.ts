@@ -0,0 +1,59 @@
+import { SentimentType, TweetData } from "../types";
+
+export const BENCHMARK_NAME = "SentimAI benchmark (36 tweets)";
+
+// Hand-labeled tweets covering plain polarity, negation, contrast, sarcasm and neutral news
+const BENCHMARK: [string, SentimentType][] = [
+  ["Just upgraded my phone and the battery easily lasts two days. Loving it!", SentimentType.POSITIVE],
+  ["Huge thanks to the support team, they sorted my refund in ten minutes.", SentimentType.POSITIVE],
+  ["This update finally fixed the sync issue. Smooth as butter now.", SentimentType.POSITIVE],
+  ["Not gonna lie, the new album is way better than I expected.", SentimentType.POSITIVE],
+  ["The camera is average but the display is absolutely stunning.", SentimentType.POSITIVE],
+  ["Can't wait for the conference next week, the speaker lineup is 🔥", SentimentType.POSITIVE],
+  ["Honestly not bad at all for the price.", SentimentType.POSITIVE],
+  ["Our team shipped the redesign today and the feedback has been amazing 🎉", SentimentType.POSITIVE],
+  ["I was skeptical, but this coffee maker is a game changer.", SentimentType.POSITIVE],
+  ["Best customer service experience I've had all year.", SentimentType.POSITIVE],
+  ["The trail was muddy but the view from the top made it all worth it.", SentimentType.POSITIVE],
+  ["Highly recommend this course if you're getting into data science.", SentimentType.POSITIVE],
+
+  ["The release notes for version 4.2 are now available on the website.", SentimentType.NEUTRAL],
+  ["Flight BA117 has been moved to gate 22.", SentimentType.NEUTRAL],
+  ["Anyone know if the store opens at 9 or 10 on Sundays?", SentimentType.NEUTRAL],
+  ["The council meeting will be streamed live on Thursday at 7pm.", SentimentType.NEUTRAL],
+  ["Switching from Android to iPhone this weekend, any tips on moving contacts?", SentimentType.NEUTRAL],
+  ["The report covers sales figures for the third quarter.", SentimentType.NEUTRAL],
+  ["Reading the new privacy policy before I accept it.", SentimentType.NEUTRAL],
+  ["The museum is free on the first Sunday of every month.", SentimentType.NEUTRAL],
+  ["Watching the keynote now, will post a summary later.", SentimentType.NEUTRAL],
+  ["The package is scheduled for delivery tomorrow between 2 and 6.", SentimentType.NEUTRAL],
+  ["Still deciding between the 13 and 15 inch model.", SentimentType.NEUTRAL],
+  ["Registration for the marathon closes on Friday.", SentimentType.NEUTRAL],
+
+  ["Third outage this week. I'm done with this provider.", SentimentType.NEGATIVE],
+  ["Great, another update that broke everything.", SentimentType.NEGATIVE],
+  ["The app keeps crashing every time I open the camera. So frustrating.", SentimentType.NEGATIVE],
+  ["Waited 45 minutes on hold just to be disconnected. Unacceptable.", SentimentType.NEGATIVE],
+  ["I really wanted to like this show, but the writing is lazy.", SentimentType.NEGATIVE],
+  ["Not worth the money at all. Returning it tomorrow.", SentimentType.NEGATIVE],
+  ["Oh wonderful, my order is delayed again. Just what I needed 🙄", SentimentType.NEGATIVE],
+  ["The food was cold and the waiter ignored us the whole night.", SentimentType.NEGATIVE],
+  ["This laptop overheats after ten minutes of browsing.", SentimentType.NEGATIVE],
+  ["Terrible battery life, it barely makes it to lunch.", SentimentType.NEGATIVE],
+  ["Can't believe they removed the headphone jack again. Ridiculous.", SentimentType.NEGATIVE],
+  ["The sequel is a complete waste of time.", SentimentType.NEGATIVE],
+];
+
+/**
+ * Returns the bundled labeled tweets as TweetData with gold labels, ready to evaluate.
+ */
+export const getBenchmarkTweets = (): TweetData[] => {
+  const now = new Date().toISOString();
+  return BENCHMARK.map(([text, goldLabel], i) => ({
+    id: crypto.randomUUID(),
+    text,
+    author: `@benchmark_${i + 1}`,
+    timestamp: now,
+    goldLabel
+  }));
+};
@@ -0,0 +1,28 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./historyService", () => ({
+  getCachedResponse: vi.fn(),
+  putCachedResponse: vi.fn(async () => {}),
+  deleteCachedResponse: vi.fn(),
+  countCachedResponses: vi.fn(async () => 0),
+  clearCachedResponses: vi.fn(),
+  pruneCachedResponses: vi.fn(async () => {})
+}));
+
+import { writeCachedAnalysis, markUncacheable } from "./cacheService";
+import { putCachedResponse } from "./historyService";
+import { getProvider } from "./providers";
+
+describe("writeCachedAnalysis", () => {
+  beforeEach(() => vi.mocked(putCachedResponse).mockClear());
+
+  it("stores provider responses", async () => {
+    await writeCachedAnalysis(getProvider("gemini"), "great phone", { label: "Positive", score: 0.9 });
+    expect(putCachedResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips responses marked as uncacheable, like stub proxy answers", async () => {
+    await writeCachedAnalysis(getProvider("gemini"), "great phone", markUncacheable({ label: "Positive", score: 0.9 }));
+    expect(putCachedResponse).not.toHaveBeenCalled();
+  });
+});
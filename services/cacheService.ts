@@ -0,0 +1,97 @@
+import { CacheStats } from "../types";
+import { SentimentProvider } from "./providers/types";
+import {
+  getCachedResponse,
+  putCachedResponse,
+  deleteCachedResponse,
+  countCachedResponses,
+  clearCachedResponses,
+  pruneCachedResponses
+} from "./historyService";
+import { getTaxonomy } from "./settingsService";
+import { taxonomyFingerprint } from "./taxonomyService";
+
+export const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const CACHE_MAX_ENTRIES = 5000;
+
+const counters = { hits: 0, misses: 0 };
+
+// Set on responses that did not come from the provider they are filed under (the stub proxy)
+const UNCACHEABLE = Symbol("uncacheable");
+
+/**
+ * Marks a provider response as not to be cached, e.g. an offline-classifier answer returned
+ * by a proxy in stub mode, which would otherwise be stored under the real provider's key.
+ */
+export const markUncacheable = <T extends object>(response: T): T => Object.assign(response, { [UNCACHEABLE]: true });
+
+const isUncacheable = (response: unknown) => !!response && typeof response === "object" && UNCACHEABLE in response;
+
+/**
+ * SHA-256 of (provider, model, prompt version, label taxonomy, text). Bumping a provider's
+ * promptVersion or editing the taxonomy changes every key, so responses to the old prompt
+ * are never read again and age out.
+ */
+const cacheKey = async (provider: SentimentProvider, text: string): Promise<string> => {
+  const payload = JSON.stringify([provider.id, provider.getModel(), provider.promptVersion, taxonomyFingerprint(getTaxonomy()), text]);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * Returns the provider's cached analyze response for `text`, or undefined on a miss.
+ * Expired entries are deleted on read. A cache that can't be opened counts as a miss.
+ */
+export const readCachedAnalysis = async (provider: SentimentProvider, text: string): Promise<unknown | undefined> => {
+  try {
+    const key = await cacheKey(provider, text);
+    const entry = await getCachedResponse(key);
+    if (entry && Date.now() - new Date(entry.createdAt).getTime() < CACHE_TTL_MS) {
+      counters.hits++;
+      return entry.response;
+    }
+    if (entry) await deleteCachedResponse(key);
+  } catch (err) {
+    console.warn("Response cache unavailable", err);
+  }
+  counters.misses++;
+  return undefined;
+};
+
+/**
+ * Stores a provider's analyze response and evicts expired and excess entries. Responses
+ * marked with `markUncacheable` are skipped. Failures are logged; a broken cache never
+ * fails the analysis itself.
+ */
+export const writeCachedAnalysis = async (provider: SentimentProvider, text: string, response: unknown): Promise<void> => {
+  if (isUncacheable(response)) return;
+  try {
+    await putCachedResponse({
+      id: await cacheKey(provider, text),
+      provider: provider.id,
+      model: provider.getModel(),
+      promptVersion: provider.promptVersion,
+      createdAt: new Date().toISOString(),
+      response
+    });
+    await pruneCachedResponses(CACHE_MAX_ENTRIES, new Date(Date.now() - CACHE_TTL_MS).toISOString());
+  } catch (err) {
+    console.warn("Could not write to the response cache", err);
+  }
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  let entries = 0;
+  try {
+    entries = await countCachedResponses();
+  } catch (err) {
+    console.warn("Response cache unavailable", err);
+  }
+  return { ...counters, entries };
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  await clearCachedResponses();
+  counters.hits = 0;
+  counters.misses = 0;
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { parseDatasetFile } from './datasetService';
+
+describe('parseDatasetFile', () => {
+  it('reads a .json file holding a pretty-printed array', async () => {
+    const content = JSON.stringify([
+      { text: "Loving the new camera", user: { screen_name: "alice" }, sentiment: "positive" },
+      { text: "Battery died again", user: { screen_name: "bob" } }
+    ], null, 2);
+    const dataset = await parseDatasetFile(new File([content], 'tweets.json'));
+
+    expect(dataset.rows).toEqual([
+      { text: "Loving the new camera", 'user.screen_name': "alice", sentiment: "positive" },
+      { text: "Battery died again", 'user.screen_name': "bob" }
+    ]);
+    expect(dataset.columns).toEqual(['text', 'user.screen_name', 'sentiment']);
+    expect(dataset.suggestedMapping).toMatchObject({ text: 'text', author: 'user.screen_name', label: 'sentiment' });
+  });
+
+  it('still reads a .json file with one object per line', async () => {
+    const content = '{"text":"first"}\n{"text":"second"}\n';
+    const dataset = await parseDatasetFile(new File([content], 'tweets.json'));
+    expect(dataset.rows).toEqual([{ text: "first" }, { text: "second" }]);
+  });
+
+  it('rejects an array of non-objects', async () => {
+    await expect(parseDatasetFile(new File(['["a", "b"]'], 'tweets.json'))).rejects.toThrow("Item 1 of the JSON array is not an object.");
+  });
+});
@@ -0,0 +1,246 @@
+import { SentimentType, TweetData, ColumnMapping, ParsedDataset } from "../types";
+
+// Column order of the Sentiment140 Kaggle export, which ships without a header row
+const SENTIMENT140_COLUMNS = ["target", "ids", "date", "flag", "user", "text"];
+
+// Header names we recognise when guessing the column mapping
+const TEXT_HEADERS = ["text", "full_text", "tweet", "content", "body", "message"];
+const AUTHOR_HEADERS = ["user", "author", "username", "screen_name", "user.screen_name", "handle"];
+const TIMESTAMP_HEADERS = ["timestamp", "date", "created_at", "time", "datetime"];
+const LABEL_HEADERS = ["label", "sentiment", "target", "airline_sentiment", "polarity", "gold"];
+const TOPIC_HEADERS = ["topic", "brand", "airline", "product", "query", "entity", "company"];
+
+// --- PARSERS ---
+
+/**
+ * RFC 4180 style CSV parser: handles quoted fields, escaped quotes and newlines inside quotes.
+ */
+const parseCsvRows = (input: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = "";
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim().length > 0));
+};
+
+const looksLikeHeader = (row: string[]) =>
+  row.some(cell => [...TEXT_HEADERS, ...AUTHOR_HEADERS, ...TIMESTAMP_HEADERS, ...LABEL_HEADERS, ...TOPIC_HEADERS].includes(cell.trim().toLowerCase()));
+
+const parseCsv = (input: string): { columns: string[]; rows: Record<string, string>[] } => {
+  const rawRows = parseCsvRows(input);
+  if (rawRows.length === 0) return { columns: [], rows: [] };
+
+  let columns: string[];
+  let body: string[][];
+
+  if (looksLikeHeader(rawRows[0])) {
+    columns = rawRows[0].map(c => c.trim());
+    body = rawRows.slice(1);
+  } else if (rawRows[0].length === SENTIMENT140_COLUMNS.length) {
+    columns = SENTIMENT140_COLUMNS;
+    body = rawRows;
+  } else {
+    columns = rawRows[0].map((_, i) => `column_${i + 1}`);
+    body = rawRows;
+  }
+
+  const rows = body.map(r => {
+    const record: Record<string, string> = {};
+    columns.forEach((col, i) => { record[col] = r[i] ?? ""; });
+    return record;
+  });
+
+  return { columns, rows };
+};
+
+/**
+ * Flattens nested objects one level deep (e.g. { user: { screen_name } } -> "user.screen_name").
+ */
+const flattenRecord = (obj: Record<string, any>): Record<string, string> => {
+  const record: Record<string, string> = {};
+  Object.entries(obj).forEach(([key, value]) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.entries(value).forEach(([childKey, childValue]) => {
+        if (childValue === null || typeof childValue === 'object') return;
+        record[`${key}.${childKey}`] = String(childValue);
+      });
+    } else if (value !== null && value !== undefined) {
+      record[key] = Array.isArray(value) ? value.join(' ') : String(value);
+    }
+  });
+  return record;
+};
+
+// Flattens parsed JSON objects into rows; the columns are the union of every row's keys
+const toTable = (objects: Record<string, any>[]): { columns: string[]; rows: Record<string, string>[] } => {
+  const columns = new Set<string>();
+  const rows = objects.map(obj => {
+    const record = flattenRecord(obj);
+    Object.keys(record).forEach(k => columns.add(k));
+    return record;
+  });
+  return { columns: Array.from(columns), rows };
+};
+
+const parseJsonl = (input: string): { columns: string[]; rows: Record<string, string>[] } => {
+  const objects: Record<string, any>[] = [];
+
+  input.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      objects.push(JSON.parse(line));
+    } catch {
+      throw new Error(`Invalid JSON on line ${i + 1}`);
+    }
+  });
+
+  return toTable(objects);
+};
+
+// A .json export holding one array of tweet objects, possibly pretty-printed over many lines
+const parseJsonArray = (input: string): { columns: string[]; rows: Record<string, string>[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(input);
+  } catch (err: any) {
+    throw new Error(`Invalid JSON: ${err.message}`);
+  }
+  if (!Array.isArray(parsed)) throw new Error("Expected a JSON array of tweets.");
+  const index = parsed.findIndex(item => !item || typeof item !== 'object' || Array.isArray(item));
+  if (index !== -1) throw new Error(`Item ${index + 1} of the JSON array is not an object.`);
+  return toTable(parsed);
+};
+
+const findColumn = (columns: string[], candidates: string[]) =>
+  columns.find(c => candidates.includes(c.toLowerCase()));
+
+const suggestMapping = (columns: string[]): ColumnMapping => ({
+  text: findColumn(columns, TEXT_HEADERS) || columns[columns.length - 1] || "",
+  author: findColumn(columns, AUTHOR_HEADERS),
+  timestamp: findColumn(columns, TIMESTAMP_HEADERS),
+  label: findColumn(columns, LABEL_HEADERS),
+  topic: findColumn(columns, TOPIC_HEADERS)
+});
+
+/**
+ * Parses an uploaded CSV, JSONL or JSON array export and guesses which columns hold the
+ * tweet fields. JSON content that starts with "[" is read as one array; other JSON is read
+ * as one object per line.
+ */
+export const parseDatasetFile = async (file: File): Promise<ParsedDataset> => {
+  const content = await file.text();
+  const trimmed = content.trimStart();
+  const isJson = /\.(jsonl|ndjson|json)$/i.test(file.name) || trimmed.startsWith('{') || trimmed.startsWith('[');
+  const { columns, rows } = !isJson ? parseCsv(content) : trimmed.startsWith('[') ? parseJsonArray(content) : parseJsonl(content);
+
+  if (rows.length === 0) {
+    throw new Error("The file does not contain any rows.");
+  }
+
+  return {
+    fileName: file.name,
+    columns,
+    rows,
+    suggestedMapping: suggestMapping(columns)
+  };
+};
+
+// --- MAPPING ---
+
+/**
+ * Normalizes a sentiment label from common dataset and model conventions:
+ * words in any case ("positive", "NEG"), Sentiment140 targets (0 / 2 / 4) and signed polarity (-1 / 1).
+ */
+export const normalizeSentimentLabel = (value?: unknown): SentimentType | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const v = String(value).trim().toLowerCase();
+  if (!v) return undefined;
+
+  if (v.startsWith('pos') || v === '4' || v === '1') return SentimentType.POSITIVE;
+  if (v.startsWith('neg') || v === '0' || v === '-1') return SentimentType.NEGATIVE;
+  if (v.startsWith('neu') || v === 'mixed' || v === '2') return SentimentType.NEUTRAL;
+  return undefined;
+};
+
+const normalizeAuthor = (value?: string) => {
+  const handle = (value || "").trim().replace(/^@+/, "");
+  return handle ? `@${handle}` : "@unknown";
+};
+
+const normalizeTimestamp = (value?: string) => {
+  // Sentiment140 dates look like "Mon Apr 06 22:19:45 PDT 2009"; strip the zone name Date can't parse
+  const cleaned = (value || "").replace(/\s[A-Z]{3}\s(\d{4})$/, " $1");
+  const date = new Date(cleaned);
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+};
+
+/**
+ * Converts parsed rows into TweetData using the chosen column mapping.
+ * Rows with empty text are skipped.
+ */
+export const mapRowsToTweets = (rows: Record<string, string>[], mapping: ColumnMapping): TweetData[] =>
+  rows
+    .filter(row => (row[mapping.text] || "").trim().length > 0)
+    .map(row => ({
+      id: crypto.randomUUID(),
+      text: row[mapping.text].trim(),
+      author: normalizeAuthor(mapping.author ? row[mapping.author] : undefined),
+      timestamp: normalizeTimestamp(mapping.timestamp ? row[mapping.timestamp] : undefined),
+      goldLabel: mapping.label ? normalizeSentimentLabel(row[mapping.label]) : undefined,
+      topic: mapping.topic ? (row[mapping.topic] || "").trim() || undefined : undefined
+    }));
+
+/**
+ * Splits a topic input such as "Brand A vs Brand B, Brand C" into distinct topics
+ * (separators: "vs", "vs.", commas, semicolons and pipes). At most `max` topics are kept.
+ */
+export const splitTopics = (input: string, max = 5): string[] => {
+  const seen = new Set<string>();
+  return input
+    .split(/\s+vs\.?\s+|[,;|]/i)
+    .map(topic => topic.trim())
+    .filter(topic => {
+      const key = topic.toLowerCase();
+      if (!topic || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, max);
+};
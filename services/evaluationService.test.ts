@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { evaluatePredictions, cohensKappa, computePairwiseAgreement, describeKappa } from "./evaluationService";
+import { SentimentType, TweetData, SentimentAnalysis, ComparisonResult } from "../types";
+
+const { POSITIVE, NEUTRAL, NEGATIVE } = SentimentType;
+
+const analysis = (sentiment: SentimentType, label?: string): SentimentAnalysis =>
+  ({ sentiment, label, score: 0.9, reasoning: "", keywords: [] } as unknown as SentimentAnalysis);
+
+const tweet = (i: number, gold?: SentimentType, predicted?: SentimentType): TweetData => ({
+  id: String(i),
+  text: `tweet ${i}`,
+  author: "@test",
+  timestamp: new Date(0).toISOString(),
+  goldLabel: gold,
+  analysis: predicted && analysis(predicted)
+});
+
+describe("evaluatePredictions", () => {
+  it("builds the confusion matrix and per-class metrics", () => {
+    const report = evaluatePredictions([
+      tweet(1, POSITIVE, POSITIVE),
+      tweet(2, POSITIVE, POSITIVE),
+      tweet(3, POSITIVE, NEGATIVE),
+      tweet(4, NEGATIVE, NEGATIVE),
+      tweet(5, NEUTRAL, POSITIVE)
+    ]);
+
+    expect(report.labels).toEqual([POSITIVE, NEUTRAL, NEGATIVE]);
+    expect(report.confusion).toEqual([
+      [2, 0, 1],
+      [1, 0, 0],
+      [0, 0, 1]
+    ]);
+    expect(report.accuracy).toBe(0.6);
+    const positive = report.perClass[0];
+    expect(positive).toEqual({ label: POSITIVE, precision: 0.667, recall: 0.667, f1: 0.667, support: 3 });
+    expect(report.perClass[1]).toMatchObject({ precision: 0, recall: 0, f1: 0, support: 1 });
+    expect(report.perClass[2]).toMatchObject({ precision: 0.5, recall: 1, f1: 0.667, support: 1 });
+    // Mean of 0.667, 0 and 0.667
+    expect(report.macroF1).toBe(0.445);
+  });
+
+  it("skips tweets without a gold label or a prediction, and leaves absent classes out of macro-F1", () => {
+    const report = evaluatePredictions([
+      tweet(1, POSITIVE, POSITIVE),
+      tweet(2, NEGATIVE, NEGATIVE),
+      tweet(3, undefined, POSITIVE),
+      tweet(4, NEGATIVE, undefined)
+    ]);
+    expect(report.evaluated).toBe(2);
+    expect(report.skipped).toBe(2);
+    expect(report.macroF1).toBe(1);
+  });
+
+  it("throws when nothing can be scored", () => {
+    expect(() => evaluatePredictions([tweet(1, undefined, POSITIVE), tweet(2, POSITIVE)])).toThrow(/gold label/);
+  });
+});
+
+describe("cohensKappa", () => {
+  it("is 1 for identical labels and 0 for empty input", () => {
+    expect(cohensKappa(["a", "b", "a"], ["a", "b", "a"])).toBe(1);
+    expect(cohensKappa(["a", "a"], ["a", "a"])).toBe(1);
+    expect(cohensKappa([], [])).toBe(0);
+  });
+
+  it("corrects the observed agreement for chance", () => {
+    // Observed 0.5; each rater says "yes" half the time, so chance agreement is also 0.5
+    expect(cohensKappa(["yes", "yes", "no", "no"], ["yes", "no", "yes", "no"])).toBe(0);
+    // Observed 0.8, expected 0.5
+    expect(cohensKappa(["y", "y", "y", "n", "n", "n", "y", "n", "y", "n"], ["y", "y", "y", "n", "n", "n", "y", "n", "n", "y"])).toBe(0.6);
+    expect(cohensKappa(["a", "b"], ["b", "a"])).toBe(-1);
+  });
+
+  it("is described on the Landis & Koch scale", () => {
+    expect(describeKappa(-0.1)).toBe("poor");
+    expect(describeKappa(0.6)).toBe("moderate");
+    expect(describeKappa(0.85)).toBe("almost perfect");
+  });
+});
+
+describe("computePairwiseAgreement", () => {
+  it("compares labels over the tweets both providers analyzed", () => {
+    const result = {
+      providers: [{ id: "a", label: "A", model: "m" }, { id: "b", label: "B", model: "m" }],
+      tweets: [
+        { ...tweet(1), results: { a: { analysis: analysis(POSITIVE, "Praise") }, b: { analysis: analysis(POSITIVE, "Praise") } } },
+        // Same polarity, different labels: a disagreement
+        { ...tweet(2), results: { a: { analysis: analysis(NEUTRAL, "Question") }, b: { analysis: analysis(NEUTRAL, "Other") } } },
+        { ...tweet(3), results: { a: { analysis: analysis(NEGATIVE, "Complaint") }, b: { error: "failed" } } }
+      ]
+    } as unknown as ComparisonResult;
+
+    const [pair] = computePairwiseAgreement(result);
+    expect(pair).toMatchObject({ providerA: "a", providerB: "b", compared: 2, agreement: 0.5 });
+  });
+});
@@ -0,0 +1,114 @@
+import { SentimentType, TweetData, ClassMetrics, EvaluationReport, ComparisonResult, PairwiseAgreement } from "../types";
+import { analysisLabel } from "./taxonomyService";
+
+// Fixed label order so confusion matrices from different runs line up
+export const EVALUATION_LABELS = [SentimentType.POSITIVE, SentimentType.NEUTRAL, SentimentType.NEGATIVE];
+
+const ratio = (numerator: number, denominator: number) => (denominator ? numerator / denominator : 0);
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Scores model predictions against gold labels. Tweets without a gold label or whose
+ * analysis failed are counted as skipped; a failed prediction is not treated as wrong.
+ */
+export const evaluatePredictions = (tweets: TweetData[]): EvaluationReport => {
+  const labels = EVALUATION_LABELS;
+  const scored = tweets.filter(t => t.goldLabel && t.analysis);
+  if (scored.length === 0) {
+    throw new Error("None of the tweets have both a gold label and a model prediction.");
+  }
+
+  const confusion = labels.map(() => labels.map(() => 0));
+  scored.forEach(t => {
+    confusion[labels.indexOf(t.goldLabel!)][labels.indexOf(t.analysis!.sentiment)]++;
+  });
+
+  const perClass: ClassMetrics[] = labels.map((label, i) => {
+    const truePositives = confusion[i][i];
+    const support = confusion[i].reduce((a, b) => a + b, 0);
+    const predicted = confusion.reduce((acc, row) => acc + row[i], 0);
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, support);
+    return {
+      label,
+      precision: round(precision),
+      recall: round(recall),
+      f1: round(ratio(2 * precision * recall, precision + recall)),
+      support
+    };
+  });
+
+  // Macro-F1 averages over classes present in the gold labels, so a missing class doesn't count as 0
+  const present = perClass.filter(c => c.support > 0);
+  const correct = labels.reduce((acc, _, i) => acc + confusion[i][i], 0);
+
+  return {
+    labels,
+    confusion,
+    perClass,
+    accuracy: round(correct / scored.length),
+    macroF1: round(present.reduce((acc, c) => acc + c.f1, 0) / present.length),
+    evaluated: scored.length,
+    skipped: tweets.length - scored.length
+  };
+};
+
+// --- INTER-PROVIDER AGREEMENT ---
+
+/**
+ * Cohen's kappa for two label sequences of equal length: agreement corrected for the
+ * agreement expected by chance from each rater's label distribution. Works for any label
+ * set, sentiments or taxonomy labels.
+ */
+export const cohensKappa = (a: string[], b: string[]): number => {
+  const n = a.length;
+  if (n === 0) return 0;
+  const observed = a.filter((label, i) => label === b[i]).length / n;
+  const categories = Array.from(new Set([...a, ...b]));
+  const expected = categories.reduce((acc, label) =>
+    acc + (a.filter(l => l === label).length / n) * (b.filter(l => l === label).length / n), 0);
+  // Both raters used a single, identical label throughout: perfect agreement, kappa undefined
+  if (expected === 1) return 1;
+  return round((observed - expected) / (1 - expected));
+};
+
+/**
+ * Agreement rate and Cohen's kappa on the taxonomy labels for every pair of providers in a
+ * comparison run, over the tweets both providers analyzed successfully.
+ */
+export const computePairwiseAgreement = (result: ComparisonResult): PairwiseAgreement[] => {
+  const pairs: PairwiseAgreement[] = [];
+
+  result.providers.forEach((providerA, i) => {
+    result.providers.slice(i + 1).forEach(providerB => {
+      const both = result.tweets
+        .map(t => [t.results[providerA.id]?.analysis, t.results[providerB.id]?.analysis])
+        .filter(pair => !!pair[0] && !!pair[1])
+        .map(([a, b]) => [analysisLabel(a!), analysisLabel(b!)]);
+      const labelsA = both.map(([a]) => a);
+      const labelsB = both.map(([, b]) => b);
+
+      pairs.push({
+        providerA: providerA.id,
+        providerB: providerB.id,
+        compared: both.length,
+        agreement: round(ratio(both.filter(([a, b]) => a === b).length, both.length)),
+        kappa: cohensKappa(labelsA, labelsB)
+      });
+    });
+  });
+
+  return pairs;
+};
+
+/**
+ * Landis & Koch interpretation of a kappa value.
+ */
+export const describeKappa = (kappa: number): string => {
+  if (kappa < 0) return "poor";
+  if (kappa <= 0.2) return "slight";
+  if (kappa <= 0.4) return "fair";
+  if (kappa <= 0.6) return "moderate";
+  if (kappa <= 0.8) return "substantial";
+  return "almost perfect";
+};
@@ -0,0 +1,221 @@
+import { TweetData, TopicSummary } from "../types";
+import { getDominantEmotion } from "./analyticsService";
+import { analysisLabel, reviewLabel, labelColor, labelSeries } from "./taxonomyService";
+import { getTaxonomy } from "./settingsService";
+
+export interface ReportMeta {
+  provider: string;
+  generatedAt: string;
+}
+
+// --- FILE HELPERS ---
+
+/**
+ * Triggers a browser download of `content` under `fileName`.
+ */
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns; revoking right away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Turns a topic or file name into a safe file name stem, e.g. "Apple Vision Pro" -> "apple-vision-pro".
+ */
+export const toFileStem = (name: string) =>
+  name.toLowerCase().replace(/\.[a-z]+$/, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'sentiment';
+
+const pct = (count: number, total: number) => (total ? Math.round((count / total) * 100) : 0);
+
+// --- DATA EXPORTS ---
+
+const escapeCsv = (value: string | number | undefined) => {
+  const str = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+const CSV_COLUMNS = ['id', 'text', 'author', 'timestamp', 'topic', 'gold_label', 'label', 'sentiment', 'score', 'reasoning', 'keywords', 'aspects', 'emotion', 'emotion_intensity', 'language', 'translation', 'human_label', 'review_note', 'error'];
+
+/**
+ * One row per tweet with its full analysis. Keywords are joined with "; " and aspects
+ * are written as "aspect:Sentiment" pairs (e.g. "camera:Positive; battery:Negative"); only the
+ * dominant emotion is exported here, the JSON export keeps every intensity.
+ */
+export const tweetsToCsv = (tweets: TweetData[]): string => {
+  const rows = tweets.map(t => [
+    t.id,
+    t.text,
+    t.author,
+    t.timestamp,
+    t.topic,
+    t.goldLabel,
+    t.analysis && analysisLabel(t.analysis),
+    t.analysis?.sentiment,
+    t.analysis?.score,
+    t.analysis?.reasoning,
+    t.analysis?.keywords.join('; '),
+    t.analysis?.aspects?.map(a => `${a.aspect}:${a.sentiment}`).join('; '),
+    getDominantEmotion(t.analysis?.emotions)?.emotion,
+    getDominantEmotion(t.analysis?.emotions)?.intensity,
+    t.analysis?.language,
+    t.analysis?.translation,
+    t.review && reviewLabel(t.review),
+    t.review?.note,
+    t.error
+  ].map(escapeCsv).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+// --- TRAINING DATA ---
+
+/**
+ * One labeled example per tweet: the reviewer's label where there is one, the model's
+ * otherwise, with `label_source` telling them apart and both labels kept. Tweets with
+ * neither label are skipped.
+ */
+const toLabeledExamples = (tweets: TweetData[]) =>
+  tweets.filter(t => t.review || t.analysis).map(t => ({
+    id: t.id,
+    text: t.text,
+    author: t.author,
+    timestamp: t.timestamp,
+    topic: t.topic,
+    label: t.review ? reviewLabel(t.review) : analysisLabel(t.analysis!),
+    polarity: t.review?.sentiment ?? t.analysis!.sentiment,
+    label_source: t.review ? 'human' : 'model',
+    model_label: t.analysis && analysisLabel(t.analysis),
+    model_score: t.analysis?.score,
+    human_label: t.review && reviewLabel(t.review),
+    note: t.review?.note,
+    language: t.analysis?.language
+  }));
+
+/**
+ * JSON Lines for evaluation or fine-tuning pipelines: one labeled example per line.
+ */
+export const tweetsToLabeledJsonl = (tweets: TweetData[]): string =>
+  toLabeledExamples(tweets).map(example => JSON.stringify(example)).join('\n');
+
+/**
+ * The labeled examples as CSV. The `text`, `author`, `timestamp`, `topic` and `label` columns
+ * are picked up by the dataset importer, so the file can be re-imported as a gold-labeled set;
+ * with a custom taxonomy, map the `polarity` column as the label instead.
+ */
+export const tweetsToLabeledCsv = (tweets: TweetData[]): string => {
+  const examples = toLabeledExamples(tweets);
+  const columns = ['id', 'text', 'author', 'timestamp', 'topic', 'label', 'polarity', 'label_source', 'model_label', 'model_score', 'human_label', 'note', 'language'] as const;
+  const rows = examples.map(example => columns.map(column => escapeCsv(example[column])).join(','));
+  return [columns.join(','), ...rows].join('\r\n');
+};
+
+export const tweetsToJson = (tweets: TweetData[], summary: TopicSummary, meta: ReportMeta): string =>
+  JSON.stringify({ ...meta, summary, tweets }, null, 2);
+
+// --- REPORTS ---
+
+const escapeMarkdown = (text: string) => text.replace(/([|\\`*_[\]])/g, '\\$1').replace(/\r?\n/g, ' ');
+
+export const buildMarkdownReport = (summary: TopicSummary, tweets: TweetData[], meta: ReportMeta): string => {
+  const { totalTweets: total } = summary;
+  const series = labelSeries(getTaxonomy(), Object.keys(summary.labelCounts));
+  const lines = [
+    `# Sentiment Report: ${summary.topic}`,
+    '',
+    `Generated ${meta.generatedAt} using ${meta.provider}.`,
+    '',
+    '## Summary',
+    '',
+    '| Label | Tweets | Share |',
+    '| --- | ---: | ---: |',
+    ...series.map(({ name }) => `| ${escapeMarkdown(name)} | ${summary.labelCounts[name]} | ${pct(summary.labelCounts[name], total)}% |`),
+    `| **Total** | **${total}** | |`,
+    '',
+    ...(summary.sarcasticCount > 0
+      ? [`${summary.sarcasticCount} tweet(s) were flagged as sarcastic; their sentiment reflects the intended meaning.`, '']
+      : []),
+    '## Top Keywords',
+    '',
+    '| Keyword | Mentions |',
+    '| --- | ---: |',
+    ...summary.commonKeywords.map(k => `| ${escapeMarkdown(k.word)} | ${k.count} |`),
+    '',
+    '## Tweets',
+    '',
+    '| Author | Tweet | Label | Score | Reasoning |',
+    '| --- | --- | --- | ---: | --- |',
+    ...tweets.map(t => `| ${escapeMarkdown(t.author)} | ${escapeMarkdown(t.text)} | ${t.analysis ? escapeMarkdown(analysisLabel(t.analysis)) : 'Failed'} | ${t.analysis ? t.analysis.score.toFixed(2) : ''} | ${escapeMarkdown(t.analysis?.reasoning ?? t.error ?? '')} |`),
+    ''
+  ];
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Standalone HTML page (inline styles, no external assets) that can be emailed or archived as-is.
+ */
+export const buildHtmlReport = (summary: TopicSummary, tweets: TweetData[], meta: ReportMeta): string => {
+  const { totalTweets: total } = summary;
+  const taxonomy = getTaxonomy();
+  const segments = labelSeries(taxonomy, Object.keys(summary.labelCounts)).map(({ name, color }) => ({ label: name, color, count: summary.labelCounts[name] }));
+  const maxKeyword = summary.commonKeywords[0]?.count || 1;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>Sentiment Report: ${escapeHtml(summary.topic)}</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Inter, sans-serif; color: #1e293b; background: #f8fafc; max-width: 960px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #64748b; font-size: 0.875rem; }
+  .card { background: #fff; border: 1px solid #e2e8f0; border-radius: 12px; padding: 1.25rem; margin: 1.25rem 0; }
+  .bar { display: flex; height: 12px; border-radius: 999px; overflow: hidden; background: #f1f5f9; }
+  .legend { display: flex; gap: 1.5rem; font-size: 0.875rem; margin-top: 0.5rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th, td { text-align: left; padding: 0.5rem; border-bottom: 1px solid #f1f5f9; vertical-align: top; }
+  th { color: #64748b; font-weight: 600; text-transform: uppercase; font-size: 0.75rem; }
+  .pill { padding: 2px 8px; border-radius: 999px; color: #fff; font-size: 0.75rem; white-space: nowrap; }
+</style>
+</head>
+<body>
+<h1>Sentiment Report: ${escapeHtml(summary.topic)}</h1>
+<p class="meta">Generated ${escapeHtml(meta.generatedAt)} using ${escapeHtml(meta.provider)} &bull; ${total} analyzed tweets</p>
+
+<div class="card">
+  <h2>Overall Sentiment</h2>
+  <div class="bar">
+    ${segments.map(s => `<div style="width:${pct(s.count, total)}%;background:${s.color}"></div>`).join('')}
+  </div>
+  <div class="legend">
+    ${segments.map(s => `<span><strong>${s.count}</strong> ${escapeHtml(s.label)} (${pct(s.count, total)}%)</span>`).join('')}
+  </div>
+</div>
+
+<div class="card">
+  <h2>Top Keywords</h2>
+  <table>
+    ${summary.commonKeywords.map(k => `<tr><td style="width:30%">${escapeHtml(k.word)}</td><td><div style="background:#3b82f6;height:10px;border-radius:4px;width:${(k.count / maxKeyword) * 100}%"></div></td><td style="width:10%">${k.count}</td></tr>`).join('\n    ')}
+  </table>
+</div>
+
+<div class="card">
+  <h2>Tweets</h2>
+  <table>
+    <tr><th>Author</th><th>Tweet</th><th>Label</th><th>Score</th><th>Reasoning</th></tr>
+    ${tweets.map(t => `<tr><td>${escapeHtml(t.author)}</td><td>${escapeHtml(t.text)}</td><td>${t.analysis ? `<span class="pill" style="background:${labelColor(taxonomy, analysisLabel(t.analysis), t.analysis.sentiment)}">${escapeHtml(analysisLabel(t.analysis))}</span>` : 'Failed'}</td><td>${t.analysis ? t.analysis.score.toFixed(2) : ''}</td><td>${escapeHtml(t.analysis?.reasoning ?? t.error ?? '')}</td></tr>`).join('\n    ')}
+  </table>
+</div>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from "vitest";
+import { analyzeTweets, compareProviders, generateAndAnalyzeTopic } from "./geminiService";
+import { registerProvider, getProvider } from "./providers";
+import { TweetData } from "../types";
+
+const tweetsOf = (count: number): TweetData[] =>
+  Array.from({ length: count }, (_, i) => ({ id: String(i), text: `tweet number ${i}`, author: "@test", timestamp: new Date(0).toISOString() }));
+
+// Keyless fake so the cache and proxy layers stay out of the way; every call fails like a missing key
+const registerFailingProvider = (id: string) => {
+  const analyze = vi.fn(async () => {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    throw new Error("API_KEY_MISSING");
+  });
+  registerProvider({ ...getProvider("offline"), id, analyze });
+  return analyze;
+};
+
+describe("analyzeTweets", () => {
+  it("stops the whole pool once a worker hits a missing key", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {}); // No IndexedDB outside the browser
+    const analyze = registerFailingProvider("failing");
+    await expect(analyzeTweets(tweetsOf(40), false, "failing", { concurrency: 4, bypassCache: true })).rejects.toThrow("API_KEY_MISSING");
+    await new Promise(resolve => setTimeout(resolve, 50));
+    // Only the requests already in flight when the first one failed
+    expect(analyze.mock.calls.length).toBeLessThanOrEqual(4);
+  });
+
+  it("rejects without starting requests when the caller's signal is already aborted", async () => {
+    const analyze = registerFailingProvider("aborted");
+    const controller = new AbortController();
+    controller.abort(new Error("Cancelled"));
+    await expect(analyzeTweets(tweetsOf(5), false, "aborted", { signal: controller.signal })).rejects.toThrow("Cancelled");
+    expect(analyze).not.toHaveBeenCalled();
+  });
+});
+
+describe("compareProviders", () => {
+  it("removes its listener from the caller's signal once the runs finish", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {}); // No IndexedDB outside the browser
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, "addEventListener");
+    const remove = vi.spyOn(controller.signal, "removeEventListener");
+    registerProvider({ ...getProvider("offline"), id: "second-offline" });
+
+    await compareProviders(tweetsOf(3), ["offline", "second-offline"], { signal: controller.signal, bypassCache: true });
+    const added = add.mock.calls.map(([, listener]) => listener);
+    const removed = remove.mock.calls.map(([, listener]) => listener);
+    expect(added).toHaveLength(1);
+    expect(removed).toEqual(added);
+  });
+});
+
+describe("generateAndAnalyzeTopic", () => {
+  it("returns the tweets of the batches that worked, with the shortfall and the error", async () => {
+    const offline = getProvider("offline");
+    const generate = vi.fn()
+      .mockImplementationOnce(offline.generate)
+      .mockRejectedValueOnce(new Error("Rate limit exceeded"));
+    registerProvider({ ...offline, id: "flaky", generate, generateStream: undefined });
+
+    // The default batch size is 10, so the second batch of a 25-tweet run fails
+    const result = await generateAndAnalyzeTopic("phones", 25, false, "flaky");
+    expect(result.tweets).toHaveLength(10);
+    expect(result.missing).toBe(15);
+    expect(result.error).toBe("Rate limit exceeded");
+  });
+});
@@ -1,282 +1,553 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { SentimentType, TweetData, TopicSummary } from "../types";
+import { SentimentType, SentimentAnalysis, AspectSentiment, EvidenceSpan, EmotionType, EmotionScores, SarcasmFlag, TweetData, BatchProgress, DateRange, ComparisonResult, SyntheticConfig, GenerationResult } from "../types";
+import { getProvider } from "./providers";
+import { normalizeSentimentLabel } from "./datasetService";
+import { detectLanguage } from "./offline/language";
+import { generateSyntheticTweets, DEFAULT_SYNTHETIC_CONFIG } from "./offline/synthetic";
+import { readCachedAnalysis, writeCachedAnalysis } from "./cacheService";
+import { createJsonItemParser } from "./jsonStreamParser";
+import { getSettings, getTaxonomy } from "./settingsService";
+import { findLabel, labelForPolarity } from "./taxonomyService";
+import { SentimentProvider } from "./providers/types";
+import { createProxyProvider } from "./providers/proxy";
 
-export type AIProvider = 'gemini' | 'groq';
+// Id of a provider registered in ./providers (e.g. 'gemini', 'groq', 'offline', 'local')
+export type AIProvider = string;
 
-export const hasValidKey = (provider: AIProvider = 'gemini') => {
-  if (provider === 'gemini') {
-    return typeof process.env.API_KEY === 'string' && process.env.API_KEY.length > 0;
-  }
-  if (provider === 'groq') {
-    return typeof process.env.GROQ_API_KEY === 'string' && process.env.GROQ_API_KEY.length > 0;
-  }
-  return false;
+// Demo Mode runs everything through the in-browser offline provider
+export const DEMO_PROVIDER: AIProvider = 'offline';
+
+export interface CacheOptions {
+  bypassCache?: boolean; // Always call the provider; the fresh response still replaces the cached one
+}
+
+export interface BatchOptions extends CacheOptions {
+  concurrency?: number; // Max requests in flight at once
+  maxRetries?: number; // Retries per item on 429 / 5xx responses
+  onProgress?: (progress: BatchProgress) => void;
+  signal?: AbortSignal; // Stops the pool: no new request starts once aborted, and the batch rejects
+}
+
+export interface GenerateOptions {
+  dateRange?: DateRange; // Spread synthetic tweets across this range instead of stamping them "now"
+  onTweets?: (tweets: TweetData[]) => void; // Called with every tweet generated so far whenever new ones stream in
+  synthetic?: Partial<SyntheticConfig>; // Demo Mode generator settings, merged over DEFAULT_SYNTHETIC_CONFIG
+}
+
+export const MAX_GENERATED_TWEETS = 200;
+
+/**
+ * Looks up a provider and, when the proxy transport is selected, routes providers that
+ * need an API key through the proxy server. Keyless providers (offline, local) always run directly.
+ */
+const resolveProvider = (id: AIProvider): SentimentProvider => {
+  const provider = getProvider(id);
+  return provider.requiresKey && getSettings().transport === 'proxy' ? createProxyProvider(provider) : provider;
 };
 
-const getGeminiAI = () => {
-  if (!process.env.API_KEY) {
-    throw new Error("API_KEY_MISSING");
+export const hasValidKey = (provider: AIProvider = 'gemini') => resolveProvider(provider).hasKey();
+
+// --- RETRY HELPERS ---
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rate limits (429) and server errors (5xx) are transient; OpenAI-compatible errors and Gemini's ApiError carry `status`
+const isRetryableError = (error: any) => {
+  const status = error?.status;
+  return status === 429 || (typeof status === 'number' && status >= 500 && status < 600);
+};
+
+/**
+ * Retries `fn` with exponential backoff (1s, 2s, 4s, ... plus jitter) on retryable errors.
+ */
+const withRetry = async <T>(fn: () => Promise<T>, maxRetries: number, baseDelayMs = 1000): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error)) throw error;
+      await sleep(baseDelayMs * 2 ** attempt + Math.random() * 250);
+    }
   }
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
 };
 
-const geminiModelName = "gemini-2.5-flash";
-const groqModelName = "llama-3.1-8b-instant";
+// --- RESPONSE VALIDATION ---
 
-// --- GROQ HELPER ---
-const callGroq = async (messages: any[], jsonMode: boolean = true) => {
-  if (!process.env.GROQ_API_KEY) throw new Error("API_KEY_MISSING");
+/**
+ * Coerces a confidence to [0, 1]. Accepts numeric strings and percentages (85 or "85%" -> 0.85);
+ * anything unreadable falls back to 0.5.
+ */
+const normalizeScore = (value: unknown): number => {
+  const score = typeof value === 'string' ? parseFloat(value.replace('%', '')) : value;
+  if (typeof score !== 'number' || !Number.isFinite(score)) return 0.5;
+  const fraction = score > 1 && score <= 100 ? score / 100 : score;
+  return Math.min(1, Math.max(0, fraction));
+};
 
-  try {
-    const response = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${process.env.GROQ_API_KEY}`,
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify({
-        messages: messages,
-        model: groqModelName,
-        response_format: jsonMode ? { type: "json_object" } : undefined,
-        temperature: 0.5,
-        max_tokens: 2048
-      })
-    });
+// Accepts an array of strings or a comma/semicolon separated string; drops "#" prefixes and blanks
+const normalizeKeywords = (value: unknown): string[] => {
+  const list = typeof value === 'string' ? value.split(/[,;]/) : Array.isArray(value) ? value : [];
+  return list
+    .filter((kw): kw is string | number => typeof kw === 'string' || typeof kw === 'number')
+    .map(kw => String(kw).trim().replace(/^#/, ''))
+    .filter(kw => kw.length > 0);
+};
 
-    if (!response.ok) {
-      const err = await response.json();
-      throw new Error(err.error?.message || `Groq API Error: ${response.statusText}`);
-    }
+/**
+ * Keeps well-formed aspect entries ({ aspect, sentiment, score }), lowercasing names and
+ * dropping duplicates and entries with an unrecognized sentiment.
+ */
+const normalizeAspects = (value: unknown): AspectSentiment[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value.flatMap((item: any) => {
+    if (!item || typeof item !== 'object') return [];
+    const name = item.aspect ?? item.name ?? item.target;
+    const aspect = typeof name === 'string' ? name.trim().toLowerCase() : '';
+    const sentiment = normalizeSentimentLabel(item.sentiment ?? item.label);
+    if (!aspect || !sentiment || seen.has(aspect)) return [];
+    seen.add(aspect);
+    return [{ aspect, sentiment, score: normalizeScore(item.score ?? item.confidence) }];
+  });
+};
+
+/**
+ * Reads emotion intensities from `{ joy: 0.8, ... }` (any key casing) or `[{ emotion, intensity }]`.
+ * Missing emotions become 0; returns undefined when no known emotion is present at all.
+ */
+const normalizeEmotions = (value: unknown): EmotionScores | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const entries: [string, unknown][] = Array.isArray(value)
+    ? value.map((item: any) => [String(item?.emotion ?? item?.name ?? ''), item?.intensity ?? item?.score])
+    : Object.entries(value);
+  const raw = new Map(entries.map(([key, v]) => [key.trim().toLowerCase(), v]));
+
+  const emotions = Object.values(EmotionType);
+  if (!emotions.some(emotion => raw.has(emotion))) return undefined;
+
+  return Object.fromEntries(emotions.map(emotion => [
+    emotion,
+    Number.isFinite(parseFloat(String(raw.get(emotion)))) ? normalizeScore(raw.get(emotion)) : 0
+  ])) as EmotionScores;
+};
+
+const isTruthy = (value: unknown) => value === true || (typeof value === 'string' && /^(true|yes|1)$/i.test(value.trim()));
 
-    const data = await response.json();
-    return data.choices[0]?.message?.content || "{}";
-  } catch (error: any) {
-    throw new Error(error.message || "Failed to connect to Groq API");
+/**
+ * Reads `sarcasm: { isSarcastic, confidence, literalSentiment }`, also accepting a bare
+ * boolean or top-level `isSarcastic` / `sarcastic` fields.
+ */
+const normalizeSarcasm = (raw: any): SarcasmFlag | undefined => {
+  const value = raw.sarcasm ?? raw.isSarcastic ?? raw.sarcastic;
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object') return { isSarcastic: isTruthy(value), confidence: isTruthy(value) ? 0.5 : 0 };
+
+  const isSarcastic = isTruthy(value.isSarcastic ?? value.sarcastic ?? value.detected);
+  return {
+    isSarcastic,
+    confidence: normalizeScore(value.confidence ?? value.score),
+    literalSentiment: normalizeSentimentLabel(value.literalSentiment ?? value.literal)
+  };
+};
+
+// Language names models sometimes return instead of ISO 639-1 codes
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: 'en', spanish: 'es', portuguese: 'pt', hindi: 'hi', french: 'fr', german: 'de', italian: 'it',
+  arabic: 'ar', russian: 'ru', japanese: 'ja', chinese: 'zh', korean: 'ko', greek: 'el',
+};
+
+/**
+ * Accepts "es", "ES", "es-MX" or "Spanish" and returns a lowercase ISO 639-1 code.
+ */
+const normalizeLanguage = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const v = value.trim().toLowerCase();
+  if (LANGUAGE_NAMES[v]) return LANGUAGE_NAMES[v];
+  const code = v.split(/[-_]/)[0];
+  return /^[a-z]{2}$/.test(code) ? code : undefined;
+};
+
+const MAX_EVIDENCE_SPANS = 12;
+
+/**
+ * Finds where an evidence phrase sits in the tweet. Model offsets are trusted only when they
+ * point at the copied phrase; otherwise the occurrence nearest to them is used.
+ */
+const locateSpan = (text: string, phrase: string, hint: number): [number, number] | undefined => {
+  const haystack = text.toLowerCase();
+  const needle = phrase.toLowerCase();
+  let best = -1;
+  for (let i = haystack.indexOf(needle); i >= 0; i = haystack.indexOf(needle, i + 1)) {
+    if (best < 0 || Math.abs(i - hint) < Math.abs(best - hint)) best = i;
   }
+  return best >= 0 ? [best, best + needle.length] : undefined;
 };
 
-// --- MOCK DATA GENERATORS ---
-
-const MOCK_TEMPLATES = {
-  [SentimentType.POSITIVE]: [
-    (t: string) => `${t} is absolutely changing the game! loving it.`,
-    (t: string) => `Can't wait to get my hands on ${t}!`,
-    (t: string) => `Honestly, ${t} is the best thing I've seen all year.`,
-    (t: string) => `Huge props to the team behind ${t}. Incredible work.`,
-    (t: string) => `I'm obsessed with ${t}. It's just perfect.`,
-    (t: string) => `${t} exceeded all my expectations. 10/10.`,
-    (t: string) => `Finally tried ${t} and wow... just wow.`,
-    (t: string) => `If you haven't checked out ${t} yet, you're missing out!`
-  ],
-  [SentimentType.NEGATIVE]: [
-    (t: string) => `I don't understand the hype around ${t}. It feels overpriced.`,
-    (t: string) => `${t} disappointed me today. Expected better performance.`,
-    (t: string) => `Not a fan of the new ${t} update. It broke my workflow.`,
-    (t: string) => `Why is everyone talking about ${t}? It's actually terrible.`,
-    (t: string) => `I regret spending time on ${t}. complete waste.`,
-    (t: string) => `${t} is extremely buggy and unstable.`,
-    (t: string) => `I tried to like ${t}, but I just can't.`,
-    (t: string) => `${t} is the worst release so far.`
-  ],
-  [SentimentType.NEUTRAL]: [
-    (t: string) => `Just saw the news about ${t}. Interesting developments.`,
-    (t: string) => `Has anyone else tried ${t}? Curious about your thoughts.`,
-    (t: string) => `${t} is exactly what you'd expect. Nothing more, nothing less.`,
-    (t: string) => `Still on the fence about ${t}.`,
-    (t: string) => `Reading up on the documentation for ${t}.`,
-    (t: string) => `Here is a summary of the ${t} launch event.`,
-    (t: string) => `${t} is available now globally.`
-  ]
+/**
+ * Reads evidence spans `[{ text, start, end, polarity, weight }]` into sorted, non-overlapping
+ * spans over `text`. Spans that cannot be located, have no polarity or point outside the text
+ * are dropped; where spans overlap, the heavier one wins.
+ */
+const normalizeEvidence = (value: unknown, text: string): EvidenceSpan[] => {
+  if (!Array.isArray(value)) return [];
+  const spans = value.flatMap((item: any): EvidenceSpan[] => {
+    if (!item || typeof item !== 'object') return [];
+    const polarity = normalizeSentimentLabel(item.polarity ?? item.sentiment);
+    if (polarity !== SentimentType.POSITIVE && polarity !== SentimentType.NEGATIVE) return [];
+
+    const phrase = typeof item.text === 'string' ? item.text.trim() : '';
+    let start = Number(item.start);
+    let end = Number(item.end);
+    const offsetsValid = Number.isInteger(start) && Number.isInteger(end) && start >= 0 && end > start && end <= text.length;
+    if (phrase && !(offsetsValid && text.slice(start, end).toLowerCase() === phrase.toLowerCase())) {
+      const located = locateSpan(text, phrase, offsetsValid ? start : 0);
+      if (!located) return [];
+      [start, end] = located;
+    } else if (!offsetsValid) {
+      return [];
+    }
+    return [{ start, end, polarity, weight: normalizeScore(item.weight ?? item.score ?? item.contribution) }];
+  });
+
+  const kept: EvidenceSpan[] = [];
+  [...spans].sort((a, b) => b.weight - a.weight).forEach(span => {
+    if (kept.length < MAX_EVIDENCE_SPANS && kept.every(k => span.end <= k.start || span.start >= k.end)) kept.push(span);
+  });
+  return kept.sort((a, b) => a.start - b.start);
 };
 
-const getMockAnalysis = (text: string) => {
-  const lower = text.toLowerCase();
-  let sentiment = SentimentType.NEUTRAL;
-  if (lower.includes('love') || lower.includes('best') || lower.includes('perfect') || lower.includes('wow') || lower.includes('game')) sentiment = SentimentType.POSITIVE;
-  else if (lower.includes('bad') || lower.includes('worst') || lower.includes('waste') || lower.includes('terrible') || lower.includes('buggy')) sentiment = SentimentType.NEGATIVE;
-  
-  // Extract pseudo-keywords (words > 4 chars)
-  const words = text.split(' ')
-    .map(w => w.replace(/[^a-zA-Z]/g, '').toLowerCase())
-    .filter(w => w.length > 4 && !w.includes('about') && !w.includes('there'));
+const flipPolarity = (sentiment: SentimentType) =>
+  sentiment === SentimentType.POSITIVE ? SentimentType.NEGATIVE
+    : sentiment === SentimentType.NEGATIVE ? SentimentType.POSITIVE
+    : sentiment;
+
+/**
+ * Validates and repairs one analysis object from a provider. Casing, score scale and
+ * missing optional fields are repaired; a response with neither a known label nor a
+ * recognizable sentiment throws, which callers record as a per-tweet error. When the
+ * model omits the language, it is detected offline from `text`.
+ *
+ * The label must belong to the active taxonomy and decides the polarity. Responses with
+ * only a polarity (the offline classifier) get a label picked by `labelForPolarity`.
+ */
+const normalizeAnalysis = (raw: any, text: string): SentimentAnalysis => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error("Model returned no analysis object.");
+  }
+
+  const taxonomy = getTaxonomy();
+  const modelLabel = findLabel(taxonomy, raw.label);
+  const labeled = modelLabel?.polarity ?? normalizeSentimentLabel(raw.sentiment ?? raw.label);
+  if (!labeled) {
+    throw new Error(`Model returned an unrecognized label: ${JSON.stringify(raw.label ?? raw.sentiment ?? null)}`);
+  }
+
+  // A sarcastic tweet whose label still matches its literal reading was not flipped by the model
+  const sarcasm = normalizeSarcasm(raw);
+  const sentiment = sarcasm?.isSarcastic && sarcasm.literalSentiment === labeled ? flipPolarity(labeled) : labeled;
+  const score = normalizeScore(raw.score ?? raw.confidence);
+  const language = normalizeLanguage(raw.language ?? raw.lang) ?? detectLanguage(text);
+  const translation = typeof raw.translation === 'string' ? raw.translation.trim() : undefined;
 
   return {
+    label: modelLabel && modelLabel.polarity === sentiment ? modelLabel.name : labelForPolarity(taxonomy, sentiment, score),
     sentiment,
-    score: 0.75 + Math.random() * 0.24,
-    reasoning: "Simulated analysis based on keyword matching in Demo Mode.",
-    keywords: words.slice(0, 3).length > 0 ? words.slice(0, 3) : ["demo", "analysis"]
+    score,
+    reasoning: typeof raw.reasoning === 'string' && raw.reasoning.trim() ? raw.reasoning.trim() : "No reasoning provided by the model.",
+    keywords: normalizeKeywords(raw.keywords),
+    aspects: normalizeAspects(raw.aspects),
+    emotions: normalizeEmotions(raw.emotions),
+    sarcasm,
+    language,
+    evidence: normalizeEvidence(raw.evidence, text),
+    // A translation only makes sense for non-English tweets and when it differs from the original
+    translation: language !== 'en' && translation && translation !== text.trim() ? translation : undefined
   };
 };
 
 /**
- * Analyzes a single tweet text for sentiment.
+ * Finds the list of generated tweets in a provider response: a bare array,
+ * an object wrapping it (`{ tweets: [...] }`, `{ data: [...] }`, ...) or a single tweet object.
+ */
+const extractGeneratedItems = (raw: any): any[] => {
+  if (Array.isArray(raw)) return raw;
+  if (!raw || typeof raw !== 'object') return [];
+  const wrapped = raw.tweets ?? raw.data ?? raw.results ?? raw.items ?? Object.values(raw).find(Array.isArray);
+  if (Array.isArray(wrapped)) return wrapped;
+  return typeof raw.text === 'string' ? [raw] : [];
+};
+
+/**
+ * Runs the sentiment model over a piece of text and returns the validated analysis.
  */
-export const analyzeSingleTweet = async (text: string, useMock = false, provider: AIProvider = 'gemini'): Promise<TweetData> => {
+const runAnalysis = async (text: string, useMock: boolean, provider: AIProvider, options: CacheOptions = {}): Promise<SentimentAnalysis> => {
+  const backend = resolveProvider(useMock ? DEMO_PROVIDER : provider);
+  // Demo mode makes no API calls, so there is nothing to cache
+  if (useMock) return normalizeAnalysis(await backend.analyze(text), text);
+
+  const cached = options.bypassCache ? undefined : await readCachedAnalysis(backend, text);
+  if (cached !== undefined) return normalizeAnalysis(cached, text);
+
+  const result = await backend.analyze(text);
+  const analysis = normalizeAnalysis(result, text); // Only responses that pass validation are cached
+  await writeCachedAnalysis(backend, text, result);
+  return analysis;
+};
+
+/**
+ * Analyzes a single tweet text for sentiment. Responses are cached per provider, model and
+ * prompt version, so analyzing the same text again costs no API call.
+ */
+export const analyzeSingleTweet = async (
+  text: string,
+  useMock = false,
+  provider: AIProvider = 'gemini',
+  options: CacheOptions = {}
+): Promise<TweetData> => {
   if (useMock) {
     await new Promise(resolve => setTimeout(resolve, 800)); // Simulate network delay
-    return {
-      id: crypto.randomUUID(),
-      text: text,
-      author: "@DemoUser",
-      timestamp: new Date().toISOString(),
-      analysis: getMockAnalysis(text)
-    };
   }
 
-  let result: any = {};
-
-  if (provider === 'gemini') {
-    const ai = getGeminiAI();
-    const prompt = `Analyze the sentiment of the following tweet: "${text}". 
-    Provide the sentiment (Positive, Negative, Neutral), a confidence score (0.0 to 1.0), 
-    a brief reasoning explaining why, and extract up to 3 key keywords relating to the sentiment.`;
-
-    const response = await ai.models.generateContent({
-      model: geminiModelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            sentiment: { type: Type.STRING, enum: [SentimentType.POSITIVE, SentimentType.NEGATIVE, SentimentType.NEUTRAL] },
-            score: { type: Type.NUMBER },
-            reasoning: { type: Type.STRING },
-            keywords: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING } 
-            }
-          },
-          required: ["sentiment", "score", "reasoning", "keywords"]
+  return {
+    id: crypto.randomUUID(),
+    text: text,
+    author: useMock ? "@DemoUser" : "@currentUser",
+    timestamp: new Date().toISOString(),
+    analysis: await runAnalysis(text, useMock, provider, options)
+  };
+};
+
+/**
+ * Analyzes already-collected tweets (e.g. an imported dataset), keeping their
+ * original id, author, timestamp and gold label.
+ *
+ * Runs up to `concurrency` requests at once and retries rate-limited or failed
+ * requests with backoff. A tweet that still fails is returned with `error` set
+ * instead of aborting the run; only a missing API key stops the whole batch.
+ * Cached responses are reused unless `bypassCache` is set.
+ */
+export const analyzeTweets = async (
+  tweets: TweetData[],
+  useMock = false,
+  provider: AIProvider = 'gemini',
+  options: BatchOptions = {}
+): Promise<TweetData[]> => {
+  const { concurrency = 4, maxRetries = 3, onProgress, bypassCache, signal } = options;
+  const results: TweetData[] = new Array(tweets.length);
+  const progress: BatchProgress = { total: tweets.length, done: 0, failed: 0 };
+  let nextIndex = 0;
+
+  // Aborted by the caller, or by the first worker that hits an error no other item can get past
+  const controller = new AbortController();
+  const abortPool = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', abortPool, { once: true });
+  if (signal?.aborted) abortPool();
+
+  const worker = async () => {
+    while (!controller.signal.aborted && nextIndex < tweets.length) {
+      const index = nextIndex++;
+      const tweet = tweets[index];
+      try {
+        if (useMock) await sleep(100); // Simulate per-request latency
+        const analysis = await withRetry(() => runAnalysis(tweet.text, useMock, provider, { bypassCache }), maxRetries);
+        results[index] = { ...tweet, analysis, error: undefined };
+        progress.done++;
+      } catch (err: any) {
+        if (err.message === "API_KEY_MISSING") {
+          controller.abort(err);
+          throw err;
         }
+        results[index] = { ...tweet, analysis: undefined, error: err.message || "Analysis failed" };
+        progress.failed++;
       }
+      if (!controller.signal.aborted) onProgress?.({ ...progress });
+    }
+  };
+
+  onProgress?.({ ...progress });
+  const workerCount = Math.max(1, Math.min(concurrency, tweets.length));
+  try {
+    await Promise.all(Array.from({ length: workerCount }, worker));
+  } finally {
+    signal?.removeEventListener('abort', abortPool);
+  }
+  // A caller abort leaves items unanalyzed; report it rather than returning a partial batch
+  if (controller.signal.aborted) throw controller.signal.reason ?? new Error("Batch aborted.");
+  return results;
+};
+
+/**
+ * Sends the same tweets through several providers at once (each with its own worker pool)
+ * and lines the results up per tweet. Progress counts one step per tweet per provider.
+ */
+export const compareProviders = async (
+  tweets: TweetData[],
+  providers: AIProvider[],
+  options: BatchOptions = {}
+): Promise<ComparisonResult> => {
+  if (providers.length < 2) {
+    throw new Error("Select at least two providers to compare.");
+  }
+
+  const perProvider = new Map<AIProvider, BatchProgress>();
+  const reportProgress = () => {
+    const all = Array.from(perProvider.values());
+    options.onProgress?.({
+      total: tweets.length * providers.length,
+      done: all.reduce((acc, p) => acc + p.done, 0),
+      failed: all.reduce((acc, p) => acc + p.failed, 0)
     });
-    result = JSON.parse(response.text || "{}");
-  } else if (provider === 'groq') {
-    const messages = [
-      {
-        role: "system",
-        content: `You are a sentiment analysis expert. Analyze the tweet. Return a JSON object with this structure: 
-        { "sentiment": "Positive" | "Negative" | "Neutral", "score": number (0-1), "reasoning": "string", "keywords": ["string"] }`
-      },
-      { role: "user", content: `Analyze this tweet: "${text}"` }
-    ];
-    const jsonStr = await callGroq(messages);
-    result = JSON.parse(jsonStr);
+  };
+
+  // One provider missing its key stops the other pools too, instead of letting them run on unseen
+  const controller = new AbortController();
+  const abortAll = () => controller.abort(options.signal?.reason);
+  options.signal?.addEventListener('abort', abortAll, { once: true });
+  if (options.signal?.aborted) abortAll();
+  let runs: TweetData[][];
+  try {
+    runs = await Promise.all(providers.map(id =>
+      analyzeTweets(tweets, false, id, {
+        ...options,
+        signal: controller.signal,
+        onProgress: progress => {
+          perProvider.set(id, progress);
+          reportProgress();
+        }
+      }).catch(err => {
+        controller.abort(err);
+        throw err;
+      })
+    ));
+  } finally {
+    options.signal?.removeEventListener('abort', abortAll);
   }
 
   return {
-    id: crypto.randomUUID(),
-    text: text,
-    author: "@currentUser",
-    timestamp: new Date().toISOString(),
-    analysis: {
-      sentiment: result.sentiment,
-      score: result.score,
-      reasoning: result.reasoning,
-      keywords: result.keywords || []
-    }
+    providers: providers.map(id => {
+      const p = getProvider(id);
+      return { id: p.id, label: p.label, model: p.getModel() };
+    }),
+    tweets: tweets.map(({ analysis, error, ...tweet }, i) => ({
+      ...tweet,
+      results: Object.fromEntries(providers.map((id, p) => [id, { analysis: runs[p][i].analysis, error: runs[p][i].error }]))
+    }))
   };
 };
 
+// Uniformly random instant within the range (or now, without a range)
+const syntheticTimestamp = (range?: DateRange) => {
+  if (!range) return new Date().toISOString();
+  const start = new Date(range.start).getTime();
+  const end = new Date(range.end).getTime();
+  return new Date(start + Math.random() * Math.max(0, end - start)).toISOString();
+};
+
+/**
+ * Requests `count` generated tweets from a provider and hands each raw item to `onItem`.
+ * Streaming providers deliver items as soon as each JSON object is complete; a response
+ * that streamed no array elements is parsed as a whole once it has finished.
+ */
+const generateItems = async (backend: SentimentProvider, topic: string, count: number, onItem: (item: any) => void) => {
+  if (!backend.generateStream) {
+    extractGeneratedItems(await backend.generate(topic, count)).forEach(onItem);
+    return;
+  }
+
+  const parser = createJsonItemParser();
+  let response = "";
+  for await (const chunk of backend.generateStream(topic, count)) {
+    response += chunk;
+    parser.push(chunk).forEach(onItem);
+  }
+  if (parser.count() === 0) {
+    const json = response.slice(response.search(/[[{]/)).replace(/`+\s*$/, ""); // Drop markdown fences
+    try {
+      extractGeneratedItems(JSON.parse(json)).forEach(onItem);
+    } catch {
+      // Not JSON at all; reported below as an empty response
+    }
+  }
+};
+
 /**
  * Simulates the "Dataset Generation" part of a notebook.
- * Generates synthetic tweets about a topic and analyzes them in batch.
+ * Generates synthetic tweets about a topic, analyzed by the model in the same response.
+ *
+ * Tweets are requested in batches (see RuntimeSettings.generationBatchSize) and reported
+ * through `onTweets` as they stream in. When a later batch fails, the tweets generated so
+ * far are returned with the shortfall and the error; only a run that produced nothing throws.
+ *
+ * Demo Mode builds the tweets with the seeded synthetic generator instead, so the same
+ * settings always give the same dataset, and classifies them offline.
  */
-export const generateAndAnalyzeTopic = async (topic: string, count: number = 15, useMock = false, provider: AIProvider = 'gemini'): Promise<TweetData[]> => {
+export const generateAndAnalyzeTopic = async (
+  topic: string,
+  count: number = 15,
+  useMock = false,
+  provider: AIProvider = 'gemini',
+  options: GenerateOptions = {}
+): Promise<GenerationResult> => {
+  const backend = resolveProvider(useMock ? DEMO_PROVIDER : provider);
+  const target = Math.min(Math.max(1, Math.floor(count)), MAX_GENERATED_TWEETS);
+  const tweets: TweetData[] = [];
+
   if (useMock) {
-    await new Promise(resolve => setTimeout(resolve, 1500)); // Simulate generation delay
-    
-    return Array.from({ length: count }).map((_, i) => {
-      // Randomly select sentiment type
-      const rand = Math.random();
-      let type = SentimentType.NEUTRAL;
-      if (rand > 0.6) type = SentimentType.POSITIVE;
-      else if (rand > 0.3) type = SentimentType.NEGATIVE;
-      
-      const templates = MOCK_TEMPLATES[type];
-      const template = templates[Math.floor(Math.random() * templates.length)];
-      const text = template(topic);
-
-      // Extract basic keywords from the generated text
-      const keywords = text.split(' ')
-        .map(w => w.replace(/[^a-zA-Z]/g, '').toLowerCase())
-        .filter(w => w.length > 4 && w !== 'about' && w !== 'there')
-        .slice(0, 3);
-      if (keywords.length === 0) keywords.push(topic.split(' ')[0].toLowerCase());
-
-      return {
-        id: crypto.randomUUID(),
-        text: text,
-        author: `@mock_user_${Math.floor(Math.random() * 1000)}`,
-        timestamp: new Date().toISOString(),
-        analysis: {
-          sentiment: type,
-          score: 0.7 + Math.random() * 0.25,
-          reasoning: "Simulated analysis in Demo Mode.",
-          keywords: keywords
-        }
-      };
-    });
+    const config = { ...DEFAULT_SYNTHETIC_CONFIG, ...options.synthetic };
+    for (const tweet of generateSyntheticTweets(topic, target, config, options.dateRange)) {
+      await sleep(120); // Simulate tweets streaming in
+      tweets.push({ ...tweet, analysis: normalizeAnalysis(await backend.analyze(tweet.text), tweet.text) });
+      options.onTweets?.([...tweets]);
+    }
+    return { tweets, missing: 0 };
   }
 
-  let rawData: any[] = [];
-
-  if (provider === 'gemini') {
-    const ai = getGeminiAI();
-    const prompt = `Generate ${count} realistic tweets about the topic "${topic}". 
-    Vary the sentiment widely (some positive, some negative, some neutral, some sarcastic).
-    For each tweet, provide the tweet text and its sentiment analysis immediately.`;
-
-    const response = await ai.models.generateContent({
-      model: geminiModelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              text: { type: Type.STRING },
-              sentiment: { type: Type.STRING, enum: [SentimentType.POSITIVE, SentimentType.NEGATIVE, SentimentType.NEUTRAL] },
-              score: { type: Type.NUMBER },
-              reasoning: { type: Type.STRING },
-              keywords: { type: Type.ARRAY, items: { type: Type.STRING } }
-            },
-            required: ["text", "sentiment", "score", "reasoning", "keywords"]
-          }
-        }
-      }
-    });
-    rawData = JSON.parse(response.text || "[]");
-
-  } else if (provider === 'groq') {
-    const messages = [
-      {
-        role: "system",
-        content: `Generate ${count} tweets about "${topic}". Vary sentiment. Return a JSON object with a key "tweets" containing an array of objects.
-        Each object must follow this schema: { "text": "tweet content", "sentiment": "Positive" | "Negative" | "Neutral", "score": number, "reasoning": "string", "keywords": ["string"] }`
-      },
-      { role: "user", content: `Generate tweets about ${topic}` }
-    ];
-    const jsonStr = await callGroq(messages);
-    const parsed = JSON.parse(jsonStr);
-    rawData = parsed.tweets || parsed || [];
-  }
+  // Repair what we can; anything else becomes a per-tweet error instead of failing the batch
+  const toTweet = (item: any): TweetData => {
+    const tweet: TweetData = {
+      id: crypto.randomUUID(),
+      text: typeof item?.text === 'string' ? item.text.trim() : '',
+      author: `@user_${Math.floor(Math.random() * 10000)}`,
+      timestamp: syntheticTimestamp(options.dateRange),
+      topic
+    };
 
-  return rawData.map((item: any) => ({
-    id: crypto.randomUUID(),
-    text: item.text,
-    author: `@user_${Math.floor(Math.random() * 10000)}`,
-    timestamp: new Date().toISOString(),
-    analysis: {
-      sentiment: item.sentiment,
-      score: item.score,
-      reasoning: item.reasoning,
-      keywords: item.keywords
+    if (!tweet.text) {
+      return { ...tweet, error: "Model returned an item without tweet text." };
     }
-  }));
+    try {
+      return { ...tweet, analysis: normalizeAnalysis(item, tweet.text) };
+    } catch (err: any) {
+      return { ...tweet, error: err.message };
+    }
+  };
+
+  // Larger datasets are generated over several calls, each small enough to fit the token limit
+  const batchSize = Math.max(1, getSettings().generationBatchSize);
+  let error: string | undefined;
+  while (tweets.length < target) {
+    const before = tweets.length;
+    try {
+      await generateItems(backend, topic, Math.min(batchSize, target - before), item => {
+        if (tweets.length >= target) return;
+        tweets.push(toTweet(item));
+        options.onTweets?.([...tweets]);
+      });
+    } catch (err: any) {
+      if (tweets.length === 0 || err.message === "API_KEY_MISSING") throw err;
+      error = err.message;
+      break;
+    }
+    // A batch that yields nothing would repeat forever
+    if (tweets.length === before) {
+      error = "The model returned no more tweets.";
+      break;
+    }
+  }
+
+  if (tweets.length === 0) {
+    throw new Error("The model response did not contain any tweets.");
+  }
+  return { tweets, missing: target - tweets.length, error };
 };
 
 /**
@@ -285,23 +556,7 @@ export const generateAndAnalyzeTopic = async (topic: string, count: number = 15,
 export const explainNLPConcept = async (concept: string, useMock = false, provider: AIProvider = 'gemini'): Promise<string> => {
   if (useMock) {
     await new Promise(resolve => setTimeout(resolve, 600));
-    return `[DEMO MODE] ${concept} is a fundamental technique in NLP. In a real notebook, this cell would explain how ${concept} transforms raw text into structured data suitable for machine learning models using libraries like NLTK or scikit-learn.`;
   }
 
-  if (provider === 'gemini') {
-    const ai = getGeminiAI();
-    const prompt = `Explain the NLP concept "${concept}" simply, as if it were a markdown cell in a Kaggle data science notebook. Keep it under 100 words.`;
-    const response = await ai.models.generateContent({
-      model: geminiModelName,
-      contents: prompt,
-    });
-    return response.text || "Could not generate explanation.";
-  } else {
-    const messages = [
-      { role: "system", content: "You are a data science tutor." },
-      { role: "user", content: `Explain the NLP concept "${concept}" simply, as if it were a markdown cell in a Kaggle data science notebook. Keep it under 100 words. Output raw text, not JSON.` }
-    ];
-    // Note: false for jsonMode
-    return await callGroq(messages, false);
-  }
+  return await resolveProvider(useMock ? DEMO_PROVIDER : provider).explain(concept);
 };
\ No newline at end of file
@@ -0,0 +1,171 @@
+import { AnalysisSession, SessionSummary, EvaluationRun, CachedResponse } from "../types";
+
+const DB_NAME = "sentimai";
+const DB_VERSION = 4;
+const STORE = "sessions";
+const EVALUATION_STORE = "evaluations"; // Added in version 2
+const CACHE_STORE = "responseCache"; // Added in version 3
+const SUMMARY_STORE = "sessionSummaries"; // Added in version 4: sessions without their tweets, for the history list
+
+const toSummary = ({ tweets, ...rest }: AnalysisSession): SessionSummary => ({ ...rest, tweetCount: tweets.length });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        [STORE, EVALUATION_STORE, CACHE_STORE, SUMMARY_STORE].forEach(name => {
+          if (db.objectStoreNames.contains(name)) return;
+          db.createObjectStore(name, { keyPath: "id" }).createIndex("createdAt", "createdAt");
+        });
+        // Summaries of sessions saved before version 4; a one-time pass over the full records
+        if (event.oldVersion > 0 && event.oldVersion < 4) {
+          const tx = request.transaction!;
+          const cursorRequest = tx.objectStore(STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            tx.objectStore(SUMMARY_STORE).put(toSummary(cursor.value));
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against an object store and resolves with its result.
+ */
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>, storeName = STORE): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/**
+ * Writes to the session store and the summary store in one transaction, so a session and
+ * its summary are saved or deleted together.
+ */
+const withSessionStores = async (fn: (sessions: IDBObjectStore, summaries: IDBObjectStore) => void): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([STORE, SUMMARY_STORE], "readwrite");
+    fn(tx.objectStore(STORE), tx.objectStore(SUMMARY_STORE));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const saveSession = async (session: AnalysisSession): Promise<void> => {
+  await withSessionStores((sessions, summaries) => {
+    sessions.put(session);
+    summaries.put(toSummary(session));
+  });
+};
+
+export const getSession = (id: string): Promise<AnalysisSession | undefined> =>
+  withStore("readonly", store => store.get(id));
+
+/**
+ * Lists saved sessions, newest first, without their tweets. Reads only the summary store,
+ * so the stored datasets are never loaded for the list.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const summaries = await withStore<SessionSummary[]>("readonly", store => store.index("createdAt").getAll(), SUMMARY_STORE);
+  return summaries.reverse();
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const session = await getSession(id);
+  if (!session) throw new Error("Session not found.");
+  await saveSession({ ...session, name });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await withSessionStores((sessions, summaries) => {
+    sessions.delete(id);
+    summaries.delete(id);
+  });
+};
+
+// --- EVALUATIONS ---
+
+export const saveEvaluation = async (run: EvaluationRun): Promise<void> => {
+  await withStore("readwrite", store => store.put(run), EVALUATION_STORE);
+};
+
+/**
+ * Lists saved evaluation runs, newest first.
+ */
+export const listEvaluations = async (): Promise<EvaluationRun[]> => {
+  const runs = await withStore<EvaluationRun[]>("readonly", store => store.index("createdAt").getAll(), EVALUATION_STORE);
+  return runs.reverse();
+};
+
+export const deleteEvaluation = async (id: string): Promise<void> => {
+  await withStore("readwrite", store => store.delete(id), EVALUATION_STORE);
+};
+
+// --- RESPONSE CACHE ---
+
+export const getCachedResponse = (id: string): Promise<CachedResponse | undefined> =>
+  withStore("readonly", store => store.get(id), CACHE_STORE);
+
+export const putCachedResponse = async (entry: CachedResponse): Promise<void> => {
+  await withStore("readwrite", store => store.put(entry), CACHE_STORE);
+};
+
+export const deleteCachedResponse = async (id: string): Promise<void> => {
+  await withStore("readwrite", store => store.delete(id), CACHE_STORE);
+};
+
+export const countCachedResponses = (): Promise<number> =>
+  withStore("readonly", store => store.count(), CACHE_STORE);
+
+export const clearCachedResponses = async (): Promise<void> => {
+  await withStore("readwrite", store => store.clear(), CACHE_STORE);
+};
+
+/**
+ * Deletes cached responses created before `expiresBefore`, then the oldest remaining
+ * ones until at most `maxEntries` are left. Walks the createdAt index oldest first and
+ * stops at the first entry that can stay.
+ */
+export const pruneCachedResponses = async (maxEntries: number, expiresBefore: string): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(CACHE_STORE, "readwrite");
+    const store = tx.objectStore(CACHE_STORE);
+    const countRequest = store.count();
+    countRequest.onsuccess = () => {
+      let excess = countRequest.result - maxEntries;
+      const cursorRequest = store.index("createdAt").openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || (excess <= 0 && cursor.value.createdAt >= expiresBefore)) return;
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { createJsonItemParser } from "./jsonStreamParser";
+
+// Feeds `text` in chunks of `size` characters and collects every item returned along the way
+const parseInChunks = (text: string, size: number) => {
+  const parser = createJsonItemParser();
+  const items: any[] = [];
+  for (let i = 0; i < text.length; i += size) items.push(...parser.push(text.slice(i, i + size)));
+  return { items, count: parser.count() };
+};
+
+const response = JSON.stringify([
+  { text: "Loving it {really}", sentiment: "Positive", aspects: [{ aspect: "camera", sentiment: "Positive" }] },
+  { text: "Quote \" and \\ backslash ]", sentiment: "Negative" }
+]);
+
+describe("createJsonItemParser", () => {
+  it("returns each array element as soon as it is complete", () => {
+    const parser = createJsonItemParser();
+    const cut = response.indexOf("},{") + 1;
+    expect(parser.push(response.slice(0, cut - 1))).toEqual([]);
+    expect(parser.push(response.slice(cut - 1, cut))).toEqual([JSON.parse(response)[0]]);
+    expect(parser.push(response.slice(cut))).toEqual([JSON.parse(response)[1]]);
+    expect(parser.count()).toBe(2);
+  });
+
+  it("gives the same items whatever the chunk size, braces and quotes in strings included", () => {
+    for (const size of [1, 3, 7, response.length]) {
+      expect(parseInChunks(response, size).items).toEqual(JSON.parse(response));
+    }
+  });
+
+  it("reads wrapped arrays and ignores markdown fences", () => {
+    const wrapped = "```json\n" + JSON.stringify({ tweets: [{ text: "a" }, { text: "b" }] }) + "\n```";
+    expect(parseInChunks(wrapped, 5).items).toEqual([{ text: "a" }, { text: "b" }]);
+  });
+
+  it("skips a malformed element and keeps the rest", () => {
+    const { items, count } = parseInChunks('[{"text": "a"}, {"text": oops}, {"text": "c"}]', 4);
+    expect(items).toEqual([{ text: "a" }, { text: "c" }]);
+    expect(count).toBe(2);
+  });
+});
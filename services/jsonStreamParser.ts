@@ -0,0 +1,61 @@
+/**
+ * Incrementally parses a streamed JSON response and returns each object that is an element
+ * of an array as soon as its closing brace arrives. Handles both `[{...}, ...]` and wrapped
+ * shapes like `{"tweets": [{...}]}`; objects nested inside an element (e.g. an "aspects"
+ * list) stay part of that element. Text outside the JSON, such as markdown fences, is ignored.
+ */
+export const createJsonItemParser = () => {
+  const containers: string[] = []; // Open '{' / '[' brackets, innermost last
+  let buffer = "";
+  let position = 0; // Next unscanned character in `buffer`
+  let itemStart = -1; // Offset of the element currently being read, or -1
+  let itemDepth = 0;
+  let inString = false;
+  let escaped = false;
+  let parsed = 0;
+
+  const push = (chunk: string): any[] => {
+    const items: any[] = [];
+    buffer += chunk;
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === "\\") escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === "{" || char === "[") {
+        if (char === "{" && itemStart < 0 && containers[containers.length - 1] === "[") {
+          itemStart = position;
+          itemDepth = containers.length;
+        }
+        containers.push(char);
+      } else if (char === "}" || char === "]") {
+        containers.pop();
+        if (itemStart >= 0 && containers.length === itemDepth) {
+          try {
+            items.push(JSON.parse(buffer.slice(itemStart, position + 1)));
+            parsed++;
+          } catch {
+            // A malformed element is skipped; the rest of the stream is still usable
+          }
+          itemStart = -1;
+        }
+      }
+    }
+
+    // Everything before the open element has been consumed
+    const keepFrom = itemStart >= 0 ? itemStart : position;
+    buffer = buffer.slice(keepFrom);
+    position -= keepFrom;
+    if (itemStart >= 0) itemStart = 0;
+    return items;
+  };
+
+  return { push, count: () => parsed };
+};
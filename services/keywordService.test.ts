@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { TweetData } from '../types';
+import { containsTerm } from './keywordService';
+
+const tweet = (text: string): TweetData => ({ id: text, text, author: '@a', timestamp: '2025-01-01T00:00:00.000Z' });
+
+describe('containsTerm', () => {
+  it('matches whole words within one segment', () => {
+    const t = tweet("Great camera. Battery life is not worth it");
+    expect(containsTerm(t, 'camera')).toBe(true);
+    expect(containsTerm(t, 'not worth')).toBe(true);
+    expect(containsTerm(t, 'camera battery')).toBe(false);
+    expect(containsTerm(t, 'worth i')).toBe(false);
+  });
+
+  it('gives the same answer when the cached tokens are reused', () => {
+    const t = tweet("Love the #Battery");
+    expect(containsTerm(t, 'battery')).toBe(true);
+    expect(containsTerm(t, 'battery')).toBe(true);
+    expect(containsTerm({ ...t, text: "Love the screen" }, 'battery')).toBe(false);
+  });
+});
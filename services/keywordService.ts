@@ -0,0 +1,126 @@
+import { SentimentType, TweetData, KeywordScore, SentimentKeywords } from "../types";
+import { STOP_WORDS, NEGATIONS } from "./offline/lexicon";
+
+// The classifier's stop words plus fillers that say nothing about a topic
+const KEYWORD_STOP_WORDS = new Set([
+  ...STOP_WORDS,
+  "not", "no", "one", "more", "most", "much", "many", "only", "even", "again", "ever", "every", "other", "such",
+  "own", "same", "each", "both", "few", "through", "while", "because", "until", "against", "between", "during",
+  "off", "down", "under", "further", "once", "nor", "let", "lets", "let's", "us", "him", "hers", "ours", "yours",
+  "themselves", "myself", "yourself", "itself", "she's", "he's", "we're", "they're", "i'll", "you'll", "we'll",
+  "it'll", "i'd", "you'd", "go", "going", "gonna", "like", "thing", "things", "way", "new", "make", "made", "know",
+  "think", "see", "say", "said", "lol", "u", "ur", "rt", "amp", "via", "pls", "tho", "bit", "lot", "well", "back"
+]);
+
+const MAX_NGRAM = 3;
+
+// Phrases never span punctuation, so "great camera. battery" yields no "camera battery"
+const SEGMENT_SPLIT = /[.!?,;:()[\]"“”…\n]+|\s[-–—]+\s/;
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:'[\p{L}]+)*/gu;
+
+/**
+ * Lowercases a tweet, drops URLs and @mentions, keeps hashtag words and returns the word
+ * tokens of each punctuation-delimited segment.
+ */
+const tokenizeSegments = (text: string): string[][] =>
+  text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/@\w+/g, ' ')
+    .replace(/#(\w+)/g, '$1')
+    .replace(/[’‘]/g, "'")
+    .split(SEGMENT_SPLIT)
+    .map(segment => segment.match(WORD_PATTERN) || [])
+    .filter(tokens => tokens.length > 0);
+
+const isContentWord = (token: string) =>
+  token.length > 1 && !KEYWORD_STOP_WORDS.has(token) && !NEGATIONS.has(token) && !/^\d+$/.test(token);
+
+/**
+ * Term counts of one tweet: content unigrams plus bigrams and trigrams that end on a content
+ * word and start on a content word or a negation ("not worth", "never again").
+ */
+const extractTerms = (text: string): Map<string, number> => {
+  const terms = new Map<string, number>();
+  tokenizeSegments(text).forEach(tokens => {
+    for (let n = 1; n <= MAX_NGRAM; n++) {
+      for (let i = 0; i + n <= tokens.length; i++) {
+        const first = tokens[i];
+        const last = tokens[i + n - 1];
+        if (!isContentWord(last)) continue;
+        if (n > 1 && !isContentWord(first) && !NEGATIONS.has(first)) continue;
+        const term = tokens.slice(i, i + n).join(' ');
+        terms.set(term, (terms.get(term) || 0) + 1);
+      }
+    }
+  });
+  return terms;
+};
+
+// Each tweet's segments as " word word " strings, built on first use. Edited tweets are new
+// objects, so an entry never outlives the text it was built from.
+const segmentCache = new WeakMap<TweetData, string[]>();
+
+const segmentsOf = (tweet: TweetData): string[] => {
+  let segments = segmentCache.get(tweet);
+  if (!segments) {
+    segments = tokenizeSegments(tweet.text).map(tokens => ` ${tokens.join(' ')} `);
+    segmentCache.set(tweet, segments);
+  }
+  return segments;
+};
+
+/**
+ * Whether a tweet contains a term from `buildSentimentKeywords`, matched on whole words
+ * within one segment the same way the term was extracted. The tweet is tokenized once and
+ * reused, since the keyword filter runs over every tweet on each keystroke.
+ */
+export const containsTerm = (tweet: TweetData, term: string): boolean =>
+  segmentsOf(tweet).some(segment => segment.includes(` ${term} `));
+
+/**
+ * Ranks the terms of each polarity by TF-IDF, computed locally from the tweet texts.
+ * Each analyzed tweet is a document (sublinear tf, idf over all analyzed tweets); a term's
+ * score is its summed TF-IDF over the tweets of that sentiment. Only terms absent from the
+ * opposite polarity are kept, so each list shows what sets that side apart. On larger
+ * datasets a term must appear in at least two tweets, and a phrase hides its shorter
+ * sub-phrases when both occur in exactly the same number of tweets.
+ */
+export const buildSentimentKeywords = (tweets: TweetData[], limit = 8): SentimentKeywords => {
+  const documents = tweets
+    .filter(t => t.analysis)
+    .map(t => ({ sentiment: t.analysis!.sentiment, terms: extractTerms(t.text) }));
+
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(doc => doc.terms.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+  const idf = (term: string) => Math.log(documents.length / documentFrequency.get(term)!);
+
+  const rank = (sentiment: SentimentType, opposite: SentimentType): KeywordScore[] => {
+    const own = documents.filter(doc => doc.sentiment === sentiment);
+    const excluded = new Set(documents.filter(doc => doc.sentiment === opposite).flatMap(doc => Array.from(doc.terms.keys())));
+    const minTweets = own.length >= 10 ? 2 : 1;
+
+    const scores = new Map<string, KeywordScore>();
+    own.forEach(doc => doc.terms.forEach((count, term) => {
+      if (excluded.has(term)) return;
+      const entry = scores.get(term) || { term, score: 0, tweetCount: 0 };
+      entry.score += (1 + Math.log(count)) * idf(term);
+      entry.tweetCount++;
+      scores.set(term, entry);
+    }));
+
+    const candidates = Array.from(scores.values()).filter(k => k.tweetCount >= minTweets && k.score > 0);
+    return candidates
+      .filter(k => !candidates.some(other =>
+        other.term.length > k.term.length && other.tweetCount === k.tweetCount && ` ${other.term} `.includes(` ${k.term} `)
+      ))
+      .sort((a, b) => b.score - a.score || b.tweetCount - a.tweetCount)
+      .slice(0, limit)
+      .map(k => ({ ...k, score: Math.round(k.score * 100) / 100 }));
+  };
+
+  return {
+    positive: rank(SentimentType.POSITIVE, SentimentType.NEGATIVE),
+    negative: rank(SentimentType.NEGATIVE, SentimentType.POSITIVE)
+  };
+};
@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { tokenize, scoreText } from "./classifier";
+
+describe("idiom matching", () => {
+  it("does not find idioms inside other words", () => {
+    expect(tokenize("The resort offers great views")).toEqual(["The", "resort", "offers", "great", "views"]);
+    expect(tokenize("New outlet downtown")).toEqual(["New", "outlet", "downtown"]);
+  });
+
+  it("keeps the full valence of a sentence with a word that contains an idiom", () => {
+    expect(scoreText("The resort offers great views").compound).toBe(scoreText("The hotel offers great views").compound);
+    expect(scoreText("New outlet downtown").hits).toEqual([]);
+  });
+
+  it("still matches whole-word idioms", () => {
+    expect(tokenize("I was let down, sort of")).toEqual(["I", "was", "let_down", ",", "sort_of"]);
+    expect(tokenize("Rated it 10/10!")).toEqual(["Rated", "it", "10_10", "!"]);
+    expect(tokenize("Scored 110/100")).not.toContain("10_10");
+  });
+});
@@ -0,0 +1,332 @@
+import { SentimentType, SentimentAnalysis, AspectSentiment, EmotionType, EmotionScores, SarcasmFlag, EvidenceSpan } from "../../types";
+import { LEXICON, BOOSTERS, NEGATIONS, STOP_WORDS, EMOTION_LEXICON } from "./lexicon";
+import { detectLanguage } from "./language";
+
+// Multi-word expressions scored as a single unit (matched before tokenization)
+const IDIOMS: Record<string, number> = {
+  "cant wait": 2.3,
+  "can't wait": 2.3,
+  "game changer": 2.4,
+  "changing the game": 2.4,
+  "10/10": 2.8,
+  "waste of time": -2.2,
+  "not a fan": -1.6,
+  "not worth it": -1.9,
+  "let down": -1.6,
+  "missing out": 1.2,
+  "expected better": -1.5,
+  "just can't": -1.2,
+  "kind of": 0,
+  "sort of": 0,
+};
+
+// Dampening phrases behave like a single "slightly" booster
+const DAMPENER_IDIOMS = new Set(["kind_of", "sort_of"]);
+
+// VADER constants
+const NEGATION_SCALAR = -0.74;
+const CAPS_INCREMENT = 0.733;
+const EXCLAMATION_INCREMENT = 0.292;
+const NORMALIZATION_ALPHA = 15;
+const COMPOUND_THRESHOLD = 0.05;
+
+const idiomToken = (phrase: string) => phrase.replace(/[^a-z0-9']+/g, '_').replace(/'/g, '');
+const IDIOM_VALENCE: Record<string, number> = Object.fromEntries(
+  Object.entries(IDIOMS).map(([phrase, valence]) => [idiomToken(phrase), valence])
+);
+const IDIOM_PHRASE: Record<string, string> = Object.fromEntries(
+  Object.keys(IDIOMS).map(phrase => [idiomToken(phrase), phrase])
+);
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+// Idioms match whole words only ("resort offers" holds no "sort of", "outlet downtown" no "let down").
+// The boundary is a Unicode-aware lookaround, so "10/10" is not found in "110/100" either; an idiom
+// edge that is not a word character (punctuation, emoticons) needs no boundary.
+const WORD_BEFORE = '(?<![\\p{L}\\p{M}\\p{N}_])';
+const WORD_AFTER = '(?![\\p{L}\\p{M}\\p{N}_])';
+const idiomSource = (phrase: string) =>
+  `${/^\w/.test(phrase) ? WORD_BEFORE : ''}${escapeRegExp(phrase)}${/\w$/.test(phrase) ? WORD_AFTER : ''}`;
+const IDIOM_PATTERN = new RegExp(
+  Object.keys(IDIOMS).sort((a, b) => b.length - a.length).map(idiomSource).join('|'),
+  'giu'
+);
+
+// Emoticons, emoji, words (with apostrophes / idiom underscores), exclamation marks and clause breaks
+const TOKEN_PATTERN = /:-?\)|:-?[dD]\b|;\)|<3|:'?-?\(|:\/(?!\/)|\p{Extended_Pictographic}\uFE0F?|[\p{L}\p{M}\p{N}'_]+|[!.?;,।]/gu;
+const CLAUSE_BREAK = /^[.?;,।]$/;
+
+export interface LexiconHit {
+  term: string; // Lexicon word or idiom phrase, e.g. "good" or "waste of time"
+  valence: number; // Contribution after boosters, negation and contrast weighting
+  negated: boolean;
+  start: number; // Offsets in the original text, end exclusive; a negated hit spans from its negation
+  end: number;
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface OfflineScore {
+  compound: number; // Normalized to [-1, 1]
+  hits: LexiconHit[];
+  tokens: string[];
+}
+
+/**
+ * Splits text into scoring tokens with their offsets in the original text. URLs and @mentions
+ * are dropped, hashtags keep their word and idioms become a single token.
+ */
+const tokenizeWithOffsets = (text: string): Token[] => {
+  // Blanked rather than removed, so offsets still point into `text`
+  const cleaned = text
+    .replace(/https?:\/\/\S+/g, match => ' '.repeat(match.length))
+    .replace(/@\w+/g, match => ' '.repeat(match.length))
+    .replace(/#(\w+)/g, (_, word) => ` ${word}`);
+
+  const tokens: Token[] = [];
+  const addWords = (from: number, to: number) => {
+    for (const match of cleaned.slice(from, to).matchAll(TOKEN_PATTERN)) {
+      tokens.push({ text: match[0], start: from + match.index!, end: from + match.index! + match[0].length });
+    }
+  };
+
+  let cursor = 0;
+  for (const match of cleaned.matchAll(IDIOM_PATTERN)) {
+    addWords(cursor, match.index!);
+    cursor = match.index! + match[0].length;
+    tokens.push({ text: idiomToken(match[0].toLowerCase()), start: match.index!, end: cursor });
+  }
+  addWords(cursor, cleaned.length);
+  return tokens;
+};
+
+export const tokenize = (text: string): string[] => tokenizeWithOffsets(text).map(t => t.text);
+
+const isNegation = (token?: string) => {
+  if (!token) return false;
+  const lower = token.toLowerCase();
+  return NEGATIONS.has(lower) || lower.endsWith("n't");
+};
+
+const boosterFor = (token?: string) => {
+  if (!token) return 0;
+  const lower = token.toLowerCase();
+  if (DAMPENER_IDIOMS.has(lower)) return -BOOSTERS.slightly;
+  return BOOSTERS[lower] || 0;
+};
+
+/**
+ * VADER-style scoring: lexicon valence adjusted for boosters/dampeners, negation,
+ * ALL-CAPS emphasis, "but" contrast and exclamation marks, normalized to a compound score.
+ */
+export const scoreText = (text: string): OfflineScore => {
+  const tokens = tokenizeWithOffsets(text);
+  // Keep clause breaks so negations and boosters don't reach across sentences
+  const spans = tokens.filter(t => t.text !== '!');
+  const words = spans.map(t => t.text);
+  const hasMixedCase = words.some(w => /\p{Ll}/u.test(w)) && words.some(w => /^\p{Lu}{2,}$/u.test(w));
+  const butIndex = words.findIndex(w => w.toLowerCase() === 'but');
+
+  const hits: LexiconHit[] = [];
+
+  words.forEach((token, i) => {
+    const lower = token.toLowerCase();
+    let valence = IDIOM_VALENCE[lower] ?? LEXICON[lower];
+    if (!valence) return;
+    const sign = Math.sign(valence);
+
+    if (hasMixedCase && /^\p{Lu}{2,}$/u.test(token)) valence += sign * CAPS_INCREMENT;
+
+    // Up to three preceding words in the same clause
+    const context: string[] = [];
+    for (let d = 1; d <= 3 && i - d >= 0 && !CLAUSE_BREAK.test(words[i - d]); d++) context.push(words[i - d]);
+
+    // Boosters decay with distance
+    context.forEach((word, distance) => {
+      const booster = boosterFor(word);
+      if (booster) valence += sign * booster * [1, 0.95, 0.9][distance];
+    });
+
+    // Emoji and emoticons are not negated ("not happy :(" is still sad)
+    const negator = /\p{L}/u.test(token) ? context.findIndex(isNegation) : -1;
+    const negated = negator >= 0;
+    if (negated) valence *= NEGATION_SCALAR;
+
+    if (butIndex >= 0) valence *= i < butIndex ? 0.5 : i > butIndex ? 1.5 : 1;
+
+    // "not good" is highlighted as a whole, without reaching back into the previous hit
+    const start = negated ? Math.max(spans[i - 1 - negator].start, hits[hits.length - 1]?.end ?? 0) : spans[i].start;
+    hits.push({ term: IDIOM_PHRASE[lower] || lower, valence, negated, start, end: spans[i].end });
+  });
+
+  let sum = hits.reduce((acc, hit) => acc + hit.valence, 0);
+  const exclamations = Math.min(tokens.filter(t => t.text === '!').length, 4);
+  if (sum !== 0) sum += Math.sign(sum) * exclamations * EXCLAMATION_INCREMENT;
+
+  return {
+    compound: sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA),
+    hits,
+    tokens: words
+  };
+};
+
+const labelFor = (compound: number) =>
+  compound >= COMPOUND_THRESHOLD ? SentimentType.POSITIVE
+    : compound <= -COMPOUND_THRESHOLD ? SentimentType.NEGATIVE
+    : SentimentType.NEUTRAL;
+
+const confidenceFor = (compound: number) => Math.round(Math.min(0.99, 0.5 + Math.abs(compound) / 2) * 100) / 100;
+
+// Clauses are split on punctuation and contrast/conjunction words so each carries one opinion
+const ASPECT_CLAUSE_SPLIT = /[,.;!?]|\b(?:but|and|while|although|though|whereas)\b/i;
+// "<noun> is/are/was ... <opinion>", e.g. "battery is awful" or "the screen looks amazing"
+const ASPECT_PATTERN = /\b([a-z][a-z-]{2,})\s+(?:is|are|was|were|feels|feel|looks|look|seems|seem|sounds|sound)\b/;
+
+/**
+ * Finds "<noun> is <opinion>" clauses and scores each one separately. Only lowercase
+ * nouns count, so product names ("Tesla is ...") are not reported as aspects of themselves.
+ */
+export const extractAspects = (text: string): AspectSentiment[] => {
+  const aspects = new Map<string, AspectSentiment>();
+
+  text.split(ASPECT_CLAUSE_SPLIT).forEach(clause => {
+    const match = (clause || '').match(ASPECT_PATTERN);
+    if (!match) return;
+    const aspect = match[1];
+    if (STOP_WORDS.has(aspect) || LEXICON[aspect] || NEGATIONS.has(aspect) || aspects.has(aspect)) return;
+
+    const { compound, hits } = scoreText(clause);
+    if (hits.length === 0) return;
+    const sentiment = labelFor(compound);
+    aspects.set(aspect, { aspect, sentiment, score: sentiment === SentimentType.NEUTRAL ? 0.5 : confidenceFor(compound) });
+  });
+
+  return Array.from(aspects.values());
+};
+
+/**
+ * Emotion intensities from the emotion lexicon. Each non-negated hit adds 1 (1.5 after a booster)
+ * to its emotions, and intensity saturates as 1 - 0.5^weight (one hit = 0.5, two = 0.75, ...).
+ */
+export const scoreEmotions = (text: string): EmotionScores => {
+  const weights = Object.fromEntries(Object.values(EmotionType).map(e => [e, 0])) as EmotionScores;
+  const words = tokenize(text).filter(t => t !== '!');
+
+  words.forEach((token, i) => {
+    const emotions = EMOTION_LEXICON[token.toLowerCase()];
+    if (!emotions) return;
+
+    const context: string[] = [];
+    for (let d = 1; d <= 3 && i - d >= 0 && !CLAUSE_BREAK.test(words[i - d]); d++) context.push(words[i - d]);
+    // "not happy" doesn't signal joy; leave the opposite emotion to the model-based providers
+    if (/\p{L}/u.test(token) && context.some(isNegation)) return;
+
+    const weight = boosterFor(context[0]) > 0 ? 1.5 : 1;
+    emotions.forEach(emotion => { weights[emotion] += weight; });
+  });
+
+  return Object.fromEntries(
+    Object.entries(weights).map(([emotion, weight]) => [emotion, Math.round((1 - 0.5 ** weight) * 100) / 100])
+  ) as EmotionScores;
+};
+
+// Stock sarcastic phrases and eye-roll emoji
+const SARCASM_PHRASES = /\b(?:yeah right|oh great|oh joy|thanks a lot|just what i needed|just perfect|what a surprise|said no one|love how|love that|nice job breaking)\b/i;
+const SARCASM_MARKERS = /(?:^|\s)\/s\b|#sarcasm\b|#not\b/i;
+const EYE_ROLL = /🙄|😒|🙃/u;
+const REPETITION = /\b(?:another|again|yet another|once again|as usual)\b/i;
+const CONTRAST = new Set(['but', 'though', 'although', 'however']);
+
+/**
+ * Heuristic sarcasm cues on top of the lexicon score: praise followed by a complaint without
+ * a contrast word ("Great, another update that broke everything"), stock phrases, eye-roll
+ * emoji and explicit "/s" markers. Each cue adds to the confidence; 0.5 or more is sarcastic.
+ */
+export const detectSarcasm = (text: string, score: OfflineScore = scoreText(text)): SarcasmFlag => {
+  const { hits, tokens } = score;
+  const firstPositive = hits.findIndex(h => h.valence > 0);
+  const lastNegative = hits.map(h => h.valence < 0).lastIndexOf(true);
+  const praiseThenComplaint = firstPositive >= 0 && lastNegative > firstPositive;
+  const hasContrast = tokens.some(t => CONTRAST.has(t.toLowerCase()));
+  // A one- or two-word opening clause of pure praise: "Great, ...", "Oh wonderful. ..."
+  const opening = text.split(/[,.!?;:]/)[0].trim().split(/\s+/);
+  const leadingPraise = opening.length <= 2 && hits.length > 0 && hits[0].valence > 0 && opening.some(w => w.toLowerCase().includes(hits[0].term));
+
+  let confidence = 0;
+  if (SARCASM_MARKERS.test(text)) confidence += 0.95;
+  if (SARCASM_PHRASES.test(text)) confidence += 0.45;
+  if (EYE_ROLL.test(text) && firstPositive >= 0) confidence += 0.4;
+  if (praiseThenComplaint && !hasContrast) confidence += leadingPraise ? 0.45 : 0.3;
+  if (praiseThenComplaint && REPETITION.test(text)) confidence += 0.15;
+
+  confidence = Math.round(Math.min(0.95, confidence) * 100) / 100;
+  return { isSarcastic: confidence >= 0.5, confidence };
+};
+
+// Valence of 4 (the lexicon's strongest words, boosted) counts as full weight
+const toEvidence = (hit: LexiconHit): EvidenceSpan => ({
+  start: hit.start,
+  end: hit.end,
+  polarity: hit.valence > 0 ? SentimentType.POSITIVE : SentimentType.NEGATIVE,
+  weight: Math.round(Math.min(1, Math.abs(hit.valence) / 4) * 100) / 100
+});
+
+const formatHit = (hit: LexiconHit) =>
+  `"${hit.term}" (${hit.negated ? 'negated, ' : ''}${hit.valence > 0 ? '+' : ''}${hit.valence.toFixed(1)})`;
+
+/**
+ * Classifies text fully in the browser and returns it in the same shape the LLM providers produce.
+ * Confidence grows with the magnitude of the compound score; a Neutral label with no
+ * lexicon evidence at all is reported with modest confidence.
+ */
+export const classifyOffline = (text: string): SentimentAnalysis => {
+  const scored = scoreText(text);
+  const { compound, hits, tokens } = scored;
+
+  const literal = labelFor(compound);
+  const sarcasm = detectSarcasm(text, scored);
+  // The lexicon only sees the surface: sarcastic praise is really a complaint
+  const flipped = sarcasm.isSarcastic && literal === SentimentType.POSITIVE;
+  if (flipped) sarcasm.literalSentiment = literal;
+
+  const sentiment = flipped ? SentimentType.NEGATIVE : literal;
+  const score = sentiment === SentimentType.NEUTRAL
+    ? (hits.length === 0 ? 0.6 : 0.5)
+    : flipped ? Math.min(confidenceFor(compound), sarcasm.confidence) : confidenceFor(compound);
+
+  const positive = hits.filter(h => h.valence > 0);
+  const negative = hits.filter(h => h.valence < 0);
+  const reasoning = hits.length === 0
+    ? "No sentiment-bearing words found in the lexicon, so the tweet is treated as Neutral."
+    : [
+        `Lexicon compound score ${compound >= 0 ? '+' : ''}${compound.toFixed(2)}.`,
+        positive.length > 0 ? `Positive cues: ${positive.map(formatHit).join(', ')}.` : '',
+        negative.length > 0 ? `Negative cues: ${negative.map(formatHit).join(', ')}.` : '',
+        tokens.some(t => t.toLowerCase() === 'but') ? 'Clause after "but" weighted higher.' : '',
+        flipped ? `Sarcasm cues (${Math.round(sarcasm.confidence * 100)}% confidence) flip the literal Positive reading to Negative.` : ''
+      ].filter(Boolean).join(' ');
+
+  const keywords = [...hits]
+    .sort((a, b) => Math.abs(b.valence) - Math.abs(a.valence))
+    .map(h => h.term);
+  const fallback = tokens
+    .map(t => t.toLowerCase())
+    .filter(t => t.length > 3 && !STOP_WORDS.has(t) && !/^\d+$/.test(t) && !t.includes('_'));
+  const uniqueKeywords = Array.from(new Set([...keywords, ...fallback])).slice(0, 3);
+
+  return {
+    sentiment,
+    score,
+    reasoning,
+    keywords: uniqueKeywords,
+    aspects: extractAspects(text),
+    emotions: scoreEmotions(text),
+    sarcasm,
+    language: detectLanguage(text),
+    evidence: hits.filter(h => h.valence !== 0).map(toEvidence)
+  };
+};
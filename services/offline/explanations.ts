@@ -0,0 +1,9 @@
+// Bundled notebook-style explanations so the Concepts tab works without an API key
+export const OFFLINE_EXPLANATIONS: Record<string, string> = {
+  "Tokenization": "Tokenization splits raw text into units the model can count. A tweet like \"Loving the new update!!\" becomes [\"loving\", \"the\", \"new\", \"update\", \"!\", \"!\"]. Tweets need special care: hashtags, @mentions, URLs, emoji and emoticons such as :) carry meaning, so tweet-aware tokenizers (e.g. NLTK's TweetTokenizer) keep them intact instead of stripping punctuation blindly.",
+  "Stop Words": "Stop words are very common words (\"the\", \"is\", \"at\") that add little meaning on their own. Removing them shrinks the vocabulary and lets models focus on informative terms. Be careful in sentiment analysis: negations like \"not\" and \"never\" are often in stop-word lists but flip polarity, so they should be kept.",
+  "Stemming vs Lemmatization": "Both reduce words to a base form so \"loved\", \"loving\" and \"loves\" are counted together. Stemming chops suffixes with rules (Porter: \"loving\" → \"love\", but \"studies\" → \"studi\"). Lemmatization uses a dictionary and part of speech to return real words (\"better\" → \"good\"). Stemming is faster; lemmatization is more accurate.",
+  "TF-IDF Vectorization": "TF-IDF turns text into numbers. Term Frequency counts how often a word appears in a tweet; Inverse Document Frequency down-weights words that appear in many tweets. The product highlights words that are distinctive for a tweet, e.g. \"refund\" scores high while \"the\" scores near zero. The resulting vectors feed classifiers like Logistic Regression.",
+  "Naive Bayes Classifier": "Naive Bayes predicts the label with the highest probability given the words, using Bayes' theorem and assuming words are independent given the class. It multiplies P(word | Positive) for each word with the prior P(Positive). Despite the \"naive\" assumption it is fast, needs little data, and is a strong baseline for tweet sentiment.",
+  "Sentiment Polarity": "Polarity measures how positive or negative text is, usually on a scale from -1 to +1. Lexicon methods like VADER sum word valences (\"great\" +3.1, \"awful\" -2.0), adjust for negation (\"not great\"), intensifiers (\"very\"), capitals and \"!\", then normalize. Scores above +0.05 are Positive, below -0.05 Negative, otherwise Neutral."
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage } from './language';
+
+describe('detectLanguage', () => {
+  it('recognizes Spanish and Portuguese that share few function words with English', () => {
+    expect(detectLanguage("Me encanta este producto, es excelente")).toBe('es');
+    expect(detectLanguage("Eu adoro este produto, é excelente")).toBe('pt');
+  });
+
+  it('breaks ties by language-specific characters', () => {
+    // French scores three function words, Spanish one plus the ñ: a tie the ñ settles
+    expect(detectLanguage("c'est pas la niña")).toBe('es');
+  });
+
+  it('returns "und" for a tie without other evidence', () => {
+    expect(detectLanguage("de la")).toBe('und');
+  });
+
+  it('assumes English when there is no evidence at all', () => {
+    expect(detectLanguage("iPhone 15 Pro Max")).toBe('en');
+    expect(detectLanguage("This is great, I love it")).toBe('en');
+  });
+});
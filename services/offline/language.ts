@@ -0,0 +1,64 @@
+// Non-Latin scripts identify the language (or language family) on their own
+const SCRIPTS: [RegExp, string][] = [
+  [/\p{Script=Devanagari}/u, 'hi'],
+  [/\p{Script=Arabic}/u, 'ar'],
+  [/\p{Script=Cyrillic}/u, 'ru'],
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/u, 'ja'],
+  [/\p{Script=Han}/u, 'zh'],
+  [/\p{Script=Hangul}/u, 'ko'],
+  [/\p{Script=Greek}/u, 'el'],
+];
+
+// Frequent function words per Latin-script language; words shared by several languages count for each
+const FUNCTION_WORDS: Record<string, string[]> = {
+  en: ["the", "and", "is", "are", "was", "this", "that", "with", "for", "you", "not", "have", "it's", "just", "my", "of", "to", "i",
+    "me", "it", "in", "on", "so", "but", "be", "what", "your", "all", "has", "they", "we", "i'm", "get", "about"],
+  es: ["el", "la", "los", "las", "es", "y", "que", "de", "en", "un", "una", "muy", "pero", "con", "por", "para", "está", "esto", "mi", "lo", "gracias", "no", "del", "al", "cuando", "cuándo", "qué", "alguien", "también", "hay", "ya",
+    "me", "te", "se", "su", "este", "esta", "estos", "como", "más", "bien", "todo", "nada", "encanta", "gusta"],
+  pt: ["o", "a", "os", "as", "é", "e", "que", "de", "em", "um", "uma", "muito", "mas", "com", "por", "para", "está", "isso", "meu", "não", "você", "do", "da", "obrigado", "ao", "são",
+    "eu", "me", "te", "se", "seu", "sua", "este", "esta", "isto", "como", "mais", "bem", "tudo", "nada", "adoro", "gosto"],
+  fr: ["le", "la", "les", "est", "et", "que", "de", "un", "une", "très", "mais", "avec", "pour", "c'est", "je", "pas", "ce", "du", "des", "merci"],
+  de: ["der", "die", "das", "ist", "und", "nicht", "ein", "eine", "sehr", "aber", "mit", "für", "ich", "es", "zu", "auf", "danke"],
+  it: ["il", "lo", "la", "gli", "è", "e", "che", "di", "un", "una", "molto", "ma", "con", "per", "questo", "non", "sono", "grazie"],
+};
+
+// Characters that only (or mostly) occur in one of the Latin-script languages above
+const MARKERS: [RegExp, string][] = [
+  [/[ñ¿¡]/, 'es'],
+  [/[ãõç]/, 'pt'],
+  [/[ß]|[äöü]/, 'de'],
+  [/[èàù]|\b(?:qu'|l'|d')/, 'fr'],
+];
+
+/**
+ * Detects the language of a tweet offline and returns an ISO 639-1 code.
+ * Script detection settles non-Latin text; Latin text is scored on function words and
+ * language-specific characters. Text with no evidence at all is assumed to be English; a tie
+ * goes to the language with character evidence, and is "und" (undetermined) when neither has any.
+ */
+export const detectLanguage = (text: string): string => {
+  const cleaned = text.replace(/https?:\/\/\S+|@\w+|#\w+/g, ' ');
+  const script = SCRIPTS.find(([pattern]) => pattern.test(cleaned));
+  if (script) return script[1];
+
+  const words = cleaned.toLowerCase().match(/[\p{L}']+/gu) || [];
+  const languages = Object.keys(FUNCTION_WORDS);
+  const scores: Record<string, number> = Object.fromEntries(languages.map(lang => [lang, 0]));
+  const markers: Record<string, number> = Object.fromEntries(languages.map(lang => [lang, 0]));
+
+  words.forEach(word => {
+    Object.entries(FUNCTION_WORDS).forEach(([lang, list]) => {
+      if (list.includes(word)) scores[lang]++;
+    });
+  });
+  MARKERS.forEach(([pattern, lang]) => {
+    if (pattern.test(cleaned.toLowerCase())) {
+      scores[lang] += 2;
+      markers[lang]++;
+    }
+  });
+
+  const [best, runnerUp] = [...languages].sort((a, b) => scores[b] - scores[a] || markers[b] - markers[a]);
+  if (scores[best] === 0) return 'en';
+  return scores[best] === scores[runnerUp] && markers[best] === markers[runnerUp] ? 'und' : best;
+};
@@ -0,0 +1,159 @@
+import { EmotionType } from "../../types";
+
+/**
+ * Sentiment lexicon for the offline classifier.
+ * Valences follow the VADER convention: -4 (extremely negative) to +4 (extremely positive).
+ * Entries are lowercase; the tokenizer lowercases input before lookup.
+ */
+export const LEXICON: Record<string, number> = {
+  // Positive
+  "amazing": 2.8, "awesome": 3.1, "excellent": 2.7, "fantastic": 2.6, "incredible": 2.4, "outstanding": 2.9,
+  "brilliant": 2.8, "superb": 3.1, "wonderful": 2.7, "great": 3.1, "good": 1.9, "nice": 1.8, "fine": 0.8,
+  "love": 3.2, "loved": 2.9, "loving": 2.9, "loves": 2.7, "lovely": 2.8, "like": 1.3, "liked": 1.8, "likes": 1.6,
+  "enjoy": 2.2, "enjoyed": 2.3, "enjoying": 2.4, "best": 3.2, "better": 1.9, "perfect": 2.7, "perfectly": 2.5,
+  "happy": 2.7, "happier": 2.4, "glad": 2.0, "pleased": 1.9, "delighted": 2.9, "excited": 1.8, "exciting": 2.2,
+  "thrilled": 2.7, "impressed": 2.1, "impressive": 2.3, "beautiful": 2.9, "gorgeous": 3.0, "cool": 1.3,
+  "fun": 2.3, "funny": 1.9, "smooth": 1.0, "fast": 0.9, "reliable": 1.6, "stable": 1.2, "solid": 1.4,
+  "recommend": 1.5, "recommended": 1.8, "worth": 0.9, "win": 2.8, "wins": 2.7, "winning": 2.4, "winner": 2.8,
+  "success": 2.7, "successful": 2.8, "helpful": 1.8, "useful": 1.9, "easy": 1.9, "intuitive": 1.7, "elegant": 2.1,
+  "favorite": 2.0, "favourite": 2.0, "obsessed": 1.2, "wow": 2.8, "yay": 2.4, "congrats": 2.4,
+  "congratulations": 2.9, "thanks": 1.9, "thank": 1.5, "grateful": 2.0, "props": 1.2, "kudos": 2.3,
+  "exceeded": 1.4, "innovative": 1.9, "revolutionary": 1.5, "genius": 2.7, "masterpiece": 3.1, "hype": 0.6,
+  "hyped": 1.3, "stunning": 2.8, "flawless": 2.8, "polished": 1.4, "satisfied": 1.8, "satisfying": 2.0,
+  "improved": 1.9, "improvement": 1.6, "upgrade": 1.0, "pleasant": 2.3, "positive": 2.6, "proud": 2.1,
+  "trust": 2.3, "safe": 1.9, "fair": 1.3, "cheap": 0.6, "affordable": 1.5, "bargain": 1.8, "epic": 2.4,
+  "legendary": 2.6, "lit": 1.5, "goat": 1.9, "fire": 0.9, "slay": 1.8, "rocks": 1.6, "rock": 0.9,
+  "hope": 1.9, "hopeful": 2.0, "optimistic": 2.2, "calm": 1.3, "clean": 1.7, "clever": 2.0,
+  "strong": 2.3, "powerful": 1.8, "wise": 1.8, "agree": 1.5, "yes": 1.7, "ok": 0.9, "okay": 0.9,
+
+  // Negative
+  "bad": -2.5, "worse": -2.1, "worst": -3.1, "terrible": -2.1, "horrible": -2.5, "awful": -2.0, "poor": -2.1,
+  "hate": -2.7, "hated": -3.2, "hates": -1.9, "hating": -2.3, "dislike": -1.6, "disliked": -1.7,
+  "disappointed": -1.9, "disappointing": -2.2, "disappointment": -2.3, "disappoints": -1.7, "sad": -2.1,
+  "angry": -2.3, "annoyed": -1.6, "annoying": -1.7, "frustrated": -2.4, "frustrating": -1.9, "upset": -1.6,
+  "broken": -2.1, "broke": -1.8, "breaks": -1.5, "buggy": -1.8, "bug": -1.2, "bugs": -1.3, "crash": -1.7,
+  "crashes": -1.7, "crashed": -1.8, "glitch": -1.3, "glitchy": -1.6, "unstable": -1.5, "slow": -1.0,
+  "laggy": -1.6, "lag": -1.3, "useless": -1.8, "waste": -1.8, "wasted": -2.2, "overpriced": -1.9,
+  "expensive": -0.9, "steep": -0.9, "scam": -2.6, "fraud": -2.8, "fail": -2.5, "failed": -2.3, "fails": -1.8, "failure": -2.3,
+  "problem": -1.7, "problems": -1.7, "issue": -0.9, "issues": -1.0, "regret": -1.9, "regrets": -1.8,
+  "ugly": -2.3, "boring": -1.3, "bored": -1.1, "mediocre": -1.0, "meh": -0.5, "lame": -1.8, "sucks": -1.5,
+  "suck": -1.9, "sucked": -2.0, "trash": -1.9, "garbage": -2.0, "junk": -1.6, "joke": -0.8, "ridiculous": -1.5,
+  "stupid": -2.4, "dumb": -2.3, "pathetic": -2.6, "disaster": -3.1, "nightmare": -2.5, "mess": -1.5,
+  "confusing": -1.3, "confused": -1.3, "complicated": -0.9, "difficult": -1.5, "hard": -0.4, "painful": -2.0,
+  "pain": -2.3, "hurt": -2.4, "worried": -1.2, "worry": -1.9, "afraid": -2.2, "scared": -2.2, "fear": -2.2,
+  "risk": -1.1, "risky": -1.4, "danger": -2.4, "dangerous": -2.1, "concern": -0.9, "concerned": -1.3,
+  "overrated": -1.5, "underwhelming": -1.6, "unusable": -2.2, "unacceptable": -2.0,
+  "angering": -2.2, "furious": -2.7, "rage": -2.6, "disgusting": -2.4, "gross": -2.1, "shame": -2.1,
+  "shameful": -2.2, "sorry": -0.3, "wrong": -2.1, "lost": -1.3, "lose": -1.7, "loser": -2.4, "losing": -1.6,
+  "negative": -2.7, "fake": -2.1, "lies": -1.8, "lie": -1.6, "lying": -2.4, "cheated": -2.2, "ripoff": -2.2,
+  "delay": -1.3, "delayed": -1.3, "refund": -0.7, "cancel": -0.9, "cancelled": -1.0, "outage": -1.8,
+  "down": -0.7, "dead": -3.3, "die": -2.9, "dies": -2.4, "kill": -3.7, "killing": -3.4,
+  "ugh": -1.8, "smh": -1.3, "wtf": -2.8, "lol": 1.8, "lmao": 2.0,
+
+  // Spanish, Portuguese and Hindi basics so non-English tweets are scored in their own language
+  "bueno": 1.9, "buena": 1.9, "excelente": 2.7, "genial": 2.6, "increíble": 2.4, "encanta": 3.0, "encantó": 3.0, "gusta": 1.8, "gustó": 1.8,
+  "recomiendo": 1.5, "feliz": 2.7, "mejor": 1.9, "malo": -2.5, "mala": -2.5, "peor": -2.1,
+  "odio": -2.7, "decepcionado": -1.9, "decepcionada": -1.9, "basura": -2.0, "lento": -1.0,
+  "bom": 1.9, "boa": 1.9, "ótimo": 2.8, "ótima": 2.8, "adorei": 2.9, "amo": 3.0, "recomendo": 1.5, "incrível": 2.4,
+  "melhor": 1.9, "ruim": -2.3, "péssimo": -2.9, "péssima": -2.9, "pior": -2.1, "decepção": -2.2, "lixo": -2.0,
+  "अच्छा": 1.9, "अच्छी": 1.9, "बढ़िया": 2.3, "शानदार": 2.8, "पसंद": 1.8, "खुश": 2.7,
+  "बुरा": -2.5, "बुरी": -2.5, "खराब": -2.3, "बेकार": -2.2, "निराश": -1.9,
+
+  // Emoticons and emoji
+  ":)": 2.0, ":-)": 2.0, ":d": 2.3, ":-d": 2.3, ";)": 0.9, "<3": 1.9, ":(": -1.9, ":-(": -1.9, ":'(": -2.2, ":/": -1.4,
+  "😀": 2.3, "😃": 2.3, "😄": 2.3, "😁": 2.1, "😊": 2.3, "🙂": 1.2, "😍": 2.9, "🤩": 2.9, "❤️": 2.7, "❤": 2.7,
+  "👍": 1.9, "🔥": 1.5, "🎉": 2.4, "😢": -2.1, "😭": -2.3, "😠": -2.3, "😡": -2.6, "🤬": -3.0, "😒": -1.6,
+  "👎": -1.9, "💩": -2.0, "🙄": -1.3, "😞": -1.8, "😤": -1.6,
+};
+
+// Words that scale the intensity of the next sentiment word (VADER booster increment)
+export const BOOSTER_INCREMENT = 0.293;
+
+export const BOOSTERS: Record<string, number> = {
+  "absolutely": BOOSTER_INCREMENT, "completely": BOOSTER_INCREMENT, "extremely": BOOSTER_INCREMENT,
+  "incredibly": BOOSTER_INCREMENT, "really": BOOSTER_INCREMENT, "so": BOOSTER_INCREMENT, "super": BOOSTER_INCREMENT,
+  "totally": BOOSTER_INCREMENT, "very": BOOSTER_INCREMENT, "truly": BOOSTER_INCREMENT, "highly": BOOSTER_INCREMENT,
+  "utterly": BOOSTER_INCREMENT, "most": BOOSTER_INCREMENT, "especially": BOOSTER_INCREMENT,
+  "barely": -BOOSTER_INCREMENT, "hardly": -BOOSTER_INCREMENT, "slightly": -BOOSTER_INCREMENT,
+  "somewhat": -BOOSTER_INCREMENT, "marginally": -BOOSTER_INCREMENT, "kinda": -BOOSTER_INCREMENT,
+  "sorta": -BOOSTER_INCREMENT, "little": -BOOSTER_INCREMENT, "partly": -BOOSTER_INCREMENT,
+};
+
+export const NEGATIONS = new Set([
+  "not", "no", "never", "none", "nobody", "nothing", "neither", "nor", "nowhere", "without", "cannot",
+  "dont", "don't", "doesnt", "doesn't", "didnt", "didn't", "isnt", "isn't", "arent", "aren't", "wasnt", "wasn't",
+  "werent", "weren't", "cant", "can't", "couldnt", "couldn't", "wont", "won't", "wouldnt", "wouldn't",
+  "shouldnt", "shouldn't", "aint", "ain't", "hasnt", "hasn't", "havent", "haven't",
+  "nunca", "nada", "sin", "não", "nem", "sem", "नहीं", "मत",
+]);
+
+// Common English function words, ignored when picking fallback keywords
+export const STOP_WORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "if", "then", "so", "of", "to", "in", "on", "at", "by", "for", "with",
+  "about", "from", "into", "over", "after", "before", "is", "am", "are", "was", "were", "be", "been", "being",
+  "it", "its", "it's", "this", "that", "these", "those", "there", "here", "i", "i'm", "me", "my", "we", "our",
+  "you", "your", "he", "she", "they", "them", "their", "his", "her", "what", "which", "who", "whom", "why",
+  "how", "when", "where", "all", "any", "some", "just", "than", "too", "very", "can", "will", "would", "should",
+  "could", "do", "does", "did", "has", "have", "had", "get", "got", "up", "out", "as", "also", "yet", "still",
+  "now", "today", "everyone", "anyone", "really", "im", "ive", "i've", "youre", "you're", "thats", "that's",
+]);
+
+/**
+ * Small NRC-style emotion lexicon: each word counts toward one or more of Plutchik's eight emotions.
+ * Idioms use their underscored token form (e.g. "cant_wait").
+ */
+export const EMOTION_LEXICON: Record<string, EmotionType[]> = {
+  // Joy
+  "love": [EmotionType.JOY], "loved": [EmotionType.JOY], "loving": [EmotionType.JOY], "happy": [EmotionType.JOY],
+  "glad": [EmotionType.JOY], "delighted": [EmotionType.JOY], "enjoy": [EmotionType.JOY], "enjoyed": [EmotionType.JOY],
+  "fun": [EmotionType.JOY], "yay": [EmotionType.JOY], "awesome": [EmotionType.JOY], "amazing": [EmotionType.JOY, EmotionType.SURPRISE],
+  "best": [EmotionType.JOY], "perfect": [EmotionType.JOY], "obsessed": [EmotionType.JOY], "beautiful": [EmotionType.JOY],
+  "thrilled": [EmotionType.JOY, EmotionType.ANTICIPATION], "congrats": [EmotionType.JOY], "lol": [EmotionType.JOY],
+  "😀": [EmotionType.JOY], "😃": [EmotionType.JOY], "😄": [EmotionType.JOY], "😁": [EmotionType.JOY], "😊": [EmotionType.JOY],
+  "😍": [EmotionType.JOY], "🤩": [EmotionType.JOY], "🎉": [EmotionType.JOY], ":)": [EmotionType.JOY], ":d": [EmotionType.JOY],
+
+  // Trust
+  "trust": [EmotionType.TRUST], "reliable": [EmotionType.TRUST], "recommend": [EmotionType.TRUST],
+  "recommended": [EmotionType.TRUST], "solid": [EmotionType.TRUST], "stable": [EmotionType.TRUST], "safe": [EmotionType.TRUST],
+  "honest": [EmotionType.TRUST], "props": [EmotionType.TRUST], "kudos": [EmotionType.TRUST], "grateful": [EmotionType.TRUST, EmotionType.JOY],
+  "thanks": [EmotionType.TRUST], "impressed": [EmotionType.TRUST, EmotionType.JOY], "👍": [EmotionType.TRUST],
+
+  // Anticipation
+  "cant_wait": [EmotionType.ANTICIPATION, EmotionType.JOY], "excited": [EmotionType.ANTICIPATION, EmotionType.JOY],
+  "hype": [EmotionType.ANTICIPATION], "hyped": [EmotionType.ANTICIPATION], "soon": [EmotionType.ANTICIPATION],
+  "upcoming": [EmotionType.ANTICIPATION], "hope": [EmotionType.ANTICIPATION], "hopeful": [EmotionType.ANTICIPATION],
+  "curious": [EmotionType.ANTICIPATION], "waiting": [EmotionType.ANTICIPATION], "expect": [EmotionType.ANTICIPATION],
+  "launch": [EmotionType.ANTICIPATION], "finally": [EmotionType.ANTICIPATION, EmotionType.JOY],
+
+  // Surprise
+  "wow": [EmotionType.SURPRISE], "surprised": [EmotionType.SURPRISE], "surprising": [EmotionType.SURPRISE],
+  "shocked": [EmotionType.SURPRISE], "unexpected": [EmotionType.SURPRISE], "omg": [EmotionType.SURPRISE],
+  "incredible": [EmotionType.SURPRISE], "unbelievable": [EmotionType.SURPRISE], "exceeded": [EmotionType.SURPRISE, EmotionType.JOY],
+  "😮": [EmotionType.SURPRISE], "😲": [EmotionType.SURPRISE], "🤯": [EmotionType.SURPRISE],
+
+  // Anger
+  "angry": [EmotionType.ANGER], "furious": [EmotionType.ANGER], "rage": [EmotionType.ANGER], "hate": [EmotionType.ANGER, EmotionType.DISGUST],
+  "annoyed": [EmotionType.ANGER], "annoying": [EmotionType.ANGER], "frustrated": [EmotionType.ANGER], "frustrating": [EmotionType.ANGER],
+  "ridiculous": [EmotionType.ANGER], "unacceptable": [EmotionType.ANGER], "scam": [EmotionType.ANGER, EmotionType.DISGUST],
+  "ripoff": [EmotionType.ANGER], "cheated": [EmotionType.ANGER], "overpriced": [EmotionType.ANGER], "wtf": [EmotionType.ANGER],
+  "broke": [EmotionType.ANGER], "😠": [EmotionType.ANGER], "😡": [EmotionType.ANGER], "🤬": [EmotionType.ANGER], "😤": [EmotionType.ANGER],
+
+  // Disgust
+  "disgusting": [EmotionType.DISGUST], "gross": [EmotionType.DISGUST], "trash": [EmotionType.DISGUST], "garbage": [EmotionType.DISGUST],
+  "junk": [EmotionType.DISGUST], "ugly": [EmotionType.DISGUST], "pathetic": [EmotionType.DISGUST], "worst": [EmotionType.DISGUST],
+  "terrible": [EmotionType.DISGUST], "waste": [EmotionType.DISGUST], "waste_of_time": [EmotionType.DISGUST],
+  "sucks": [EmotionType.DISGUST], "💩": [EmotionType.DISGUST], "🙄": [EmotionType.DISGUST], "👎": [EmotionType.DISGUST],
+
+  // Sadness
+  "sad": [EmotionType.SADNESS], "disappointed": [EmotionType.SADNESS], "disappointing": [EmotionType.SADNESS],
+  "disappointment": [EmotionType.SADNESS], "regret": [EmotionType.SADNESS], "miss": [EmotionType.SADNESS], "lost": [EmotionType.SADNESS],
+  "sorry": [EmotionType.SADNESS], "let_down": [EmotionType.SADNESS], "expected_better": [EmotionType.SADNESS],
+  "just_cant": [EmotionType.SADNESS], "hurt": [EmotionType.SADNESS], "underwhelming": [EmotionType.SADNESS],
+  "😢": [EmotionType.SADNESS], "😭": [EmotionType.SADNESS], "😞": [EmotionType.SADNESS], ":(": [EmotionType.SADNESS], ":'(": [EmotionType.SADNESS],
+
+  // Fear
+  "afraid": [EmotionType.FEAR], "scared": [EmotionType.FEAR], "fear": [EmotionType.FEAR], "worried": [EmotionType.FEAR],
+  "worry": [EmotionType.FEAR], "risk": [EmotionType.FEAR], "risky": [EmotionType.FEAR], "danger": [EmotionType.FEAR],
+  "dangerous": [EmotionType.FEAR], "unstable": [EmotionType.FEAR], "concerned": [EmotionType.FEAR], "nervous": [EmotionType.FEAR],
+  "anxious": [EmotionType.FEAR], "outage": [EmotionType.FEAR], "crash": [EmotionType.FEAR], "crashes": [EmotionType.FEAR],
+};
@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { generateSyntheticTweets, DEFAULT_SYNTHETIC_CONFIG } from './synthetic';
+
+describe('generateSyntheticTweets', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('gives the same tweets for the same seed, whenever it runs', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'));
+    const first = generateSyntheticTweets('phones', 25, DEFAULT_SYNTHETIC_CONFIG);
+    vi.setSystemTime(new Date('2026-03-02T18:30:00Z'));
+    const second = generateSyntheticTweets('phones', 25, DEFAULT_SYNTHETIC_CONFIG);
+
+    expect(second).toEqual(first);
+  });
+
+  it('spreads timestamps over the hours before the anchor', () => {
+    const anchor = new Date(DEFAULT_SYNTHETIC_CONFIG.anchor).getTime();
+    const spread = DEFAULT_SYNTHETIC_CONFIG.spreadHours * 60 * 60 * 1000;
+
+    for (const tweet of generateSyntheticTweets('phones', 25, DEFAULT_SYNTHETIC_CONFIG)) {
+      const time = new Date(tweet.timestamp).getTime();
+      expect(time).toBeLessThanOrEqual(anchor);
+      expect(time).toBeGreaterThanOrEqual(anchor - spread);
+    }
+  });
+});
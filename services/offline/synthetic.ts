@@ -0,0 +1,110 @@
+import { SentimentType, SyntheticConfig, DateRange, TweetData } from "../../types";
+import { MOCK_TEMPLATES, SARCASTIC_TEMPLATES } from "./templates";
+
+export const DEFAULT_SYNTHETIC_CONFIG: SyntheticConfig = {
+  seed: 42,
+  sentimentMix: {
+    [SentimentType.POSITIVE]: 40,
+    [SentimentType.NEGATIVE]: 30,
+    [SentimentType.NEUTRAL]: 30
+  },
+  sarcasmRate: 0.15,
+  noiseRate: 0.1,
+  vocabulary: ["price", "battery", "camera", "design", "update", "support"],
+  spreadHours: 24,
+  anchor: '2025-01-01T00:00:00.000Z'
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * mulberry32: a small seeded PRNG returning floats in [0, 1), used instead of Math.random
+ * wherever a dataset has to be reproducible.
+ */
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 32);
+
+// FNV-1a, so every topic gets its own sequence from the same seed
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const pick = <T>(rng: () => number, items: T[]): T => items[Math.floor(rng() * items.length)];
+
+const pickSentiment = (rng: () => number, mix: Record<SentimentType, number>): SentimentType => {
+  const entries = (Object.entries(mix) as [SentimentType, number][]).filter(([, weight]) => weight > 0);
+  if (entries.length === 0) return SentimentType.NEUTRAL;
+  let roll = rng() * entries.reduce((acc, [, weight]) => acc + weight, 0);
+  for (const [sentiment, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return sentiment;
+  }
+  return entries[entries.length - 1][0];
+};
+
+// The kinds of noise real tweets carry; each keeps the intended sentiment
+const NOISE: ((text: string, rng: () => number, topic: string) => string)[] = [
+  // Typo: swap two adjacent letters of a longer word
+  (text, rng) => {
+    const words = text.match(/\p{L}{5,}/gu);
+    if (!words) return text;
+    const word = pick(rng, words);
+    const i = 1 + Math.floor(rng() * (word.length - 2));
+    return text.replace(word, word.slice(0, i) + word[i + 1] + word[i] + word.slice(i + 2));
+  },
+  // Stretched vowel: "so" -> "sooo"
+  (text, rng) => text.replace(/\b(\p{L}*?)([aeiou])\b/u, (_, head, vowel) => head + vowel.repeat(2 + Math.floor(rng() * 3))),
+  text => text.toLowerCase(),
+  (text, _, topic) => `${text} #${topic.replace(/[^\p{L}\p{N}]+/gu, '')}`
+];
+
+/**
+ * Builds `count` template tweets about `topic` from the config alone: the same config, topic
+ * and date range always give the same texts, authors, ids and timestamps. Each tweet's
+ * intended sentiment is set as its gold label, so offline results can be checked against it.
+ * Without a date range, timestamps fall in the `spreadHours` before `config.anchor`.
+ */
+export const generateSyntheticTweets = (topic: string, count: number, config: SyntheticConfig, dateRange?: DateRange): TweetData[] => {
+  const rng = createRng(config.seed ^ hashString(topic));
+  const vocabulary = config.vocabulary.length > 0 ? config.vocabulary : DEFAULT_SYNTHETIC_CONFIG.vocabulary;
+  const span = dateRange
+    ? Math.max(0, new Date(dateRange.end).getTime() - new Date(dateRange.start).getTime())
+    : config.spreadHours * HOUR_MS;
+  // An anchor that does not parse falls back to the default, so timestamps never depend on the clock
+  const anchor = new Date(config.anchor).getTime();
+  const start = dateRange
+    ? new Date(dateRange.start).getTime()
+    : (isNaN(anchor) ? new Date(DEFAULT_SYNTHETIC_CONFIG.anchor).getTime() : anchor) - span;
+
+  return Array.from({ length: count }, (_, i): TweetData => {
+    const sentiment = pickSentiment(rng, config.sentimentMix);
+    const sarcastic = sentiment === SentimentType.NEGATIVE && rng() < config.sarcasmRate;
+    const template = pick(rng, sarcastic ? SARCASTIC_TEMPLATES : MOCK_TEMPLATES[sentiment]);
+    let text = template(topic, pick(rng, vocabulary));
+    if (rng() < config.noiseRate) text = pick(rng, NOISE)(text, rng, topic);
+    const offset = rng() * span;
+
+    return {
+      id: `synthetic-${config.seed}-${hashString(topic).toString(36)}-${i}`,
+      text,
+      author: `@mock_user_${Math.floor(rng() * 1000)}`,
+      timestamp: new Date(start + offset).toISOString(),
+      topic,
+      goldLabel: sentiment
+    };
+  });
+};
@@ -0,0 +1,54 @@
+import { SentimentType } from "../../types";
+
+// A tweet about topic `t`; templates that discuss one feature use the vocabulary term `w`
+export type TweetTemplate = (t: string, w: string) => string;
+
+// Tweet templates per sentiment, used by Demo Mode and the offline provider to synthesize datasets
+export const MOCK_TEMPLATES: Record<SentimentType, TweetTemplate[]> = {
+  [SentimentType.POSITIVE]: [
+    (t: string) => `${t} is absolutely changing the game! loving it.`,
+    (t: string) => `Can't wait to get my hands on ${t}!`,
+    (t: string) => `Honestly, ${t} is the best thing I've seen all year.`,
+    (t: string) => `Huge props to the team behind ${t}. Incredible work.`,
+    (t: string) => `I'm obsessed with ${t}. It's just perfect.`,
+    (t: string) => `${t} exceeded all my expectations. 10/10.`,
+    (t: string) => `Finally tried ${t} and wow... just wow.`,
+    (t: string) => `If you haven't checked out ${t} yet, you're missing out!`,
+    (t: string) => `The ${t} price is steep, but the performance is incredible.`,
+    (t: string, w: string) => `Really impressed by the ${w} on ${t}. Excellent job.`,
+    (t: string) => `¡Me encanta ${t}! Es genial.`,
+    (t: string) => `${t} बहुत शानदार है!`
+  ],
+  [SentimentType.NEGATIVE]: [
+    (t: string) => `I don't understand the hype around ${t}. It feels overpriced.`,
+    (t: string) => `${t} disappointed me today. Expected better performance.`,
+    (t: string) => `Not a fan of the new ${t} update. It broke my workflow.`,
+    (t: string) => `Why is everyone talking about ${t}? It's actually terrible.`,
+    (t: string) => `I regret spending time on ${t}. complete waste.`,
+    (t: string) => `${t} is extremely buggy and unstable.`,
+    (t: string) => `I tried to like ${t}, but I just can't.`,
+    (t: string) => `${t} is the worst release so far.`,
+    (t: string) => `The ${t} camera is great, but the battery is awful.`,
+    (t: string, w: string) => `The ${w} on ${t} is a disaster. So frustrating.`,
+    (t: string) => `${t} é péssimo, não recomendo.`
+  ],
+  [SentimentType.NEUTRAL]: [
+    (t: string) => `Just saw the news about ${t}. Interesting developments.`,
+    (t: string) => `Has anyone else tried ${t}? Curious about your thoughts.`,
+    (t: string) => `${t} is exactly what you'd expect. Nothing more, nothing less.`,
+    (t: string) => `Still on the fence about ${t}.`,
+    (t: string) => `Reading up on the documentation for ${t}.`,
+    (t: string) => `Here is a summary of the ${t} launch event.`,
+    (t: string) => `${t} is available now globally.`,
+    (t: string) => `Alguien sabe cuándo llega ${t} a México?`,
+    (t: string, w: string) => `Anyone compared the ${w} of ${t} with last year's model?`
+  ]
+};
+
+// Negative tweets voiced as praise; the intended sentiment is Negative
+export const SARCASTIC_TEMPLATES: TweetTemplate[] = [
+  (t: string) => `Great, another ${t} update that broke everything.`,
+  (t: string, w: string) => `Oh great, the ${w} on ${t} failed again. Just what I needed.`,
+  (t: string) => `Love how ${t} crashes every single time I open it. Fantastic.`,
+  (t: string, w: string) => `Wow, ${t} ${w} is sooo amazing 🙄`
+];
@@ -0,0 +1,213 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { SentimentType, EmotionType } from "../../types";
+import { SentimentProvider } from "./types";
+import { getSettings, getProviderSettings, getApiKey, getTaxonomy } from "../settingsService";
+import { renderClassificationPrompt } from "../taxonomyService";
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+const getModelName = () => getProviderSettings('gemini').model || DEFAULT_MODEL;
+
+// Sampling settings from the settings panel, shared by every request
+const generationConfig = () => {
+  const { temperature, maxTokens } = getSettings();
+  return { temperature, maxOutputTokens: maxTokens };
+};
+
+const sentimentEnum = [SentimentType.POSITIVE, SentimentType.NEGATIVE, SentimentType.NEUTRAL];
+
+// The active taxonomy's label names, constrained by the response schema
+const labelSchema = () => ({ type: Type.STRING, enum: getTaxonomy().labels.map(label => label.name) });
+
+const LABEL_INSTRUCTIONS = `Give the chosen label as "label" and the polarity shown next to it (Positive, Negative or Neutral) as "sentiment".`;
+
+// Per-aspect sentiment; optional so tweets without a clear aspect can return an empty list
+const aspectsSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      aspect: { type: Type.STRING },
+      sentiment: { type: Type.STRING, enum: sentimentEnum },
+      score: { type: Type.NUMBER }
+    },
+    required: ["aspect", "sentiment", "score"]
+  }
+};
+
+// Sarcasm flag; `sentiment` carries the intended meaning, `literalSentiment` the surface reading
+const sarcasmSchema = {
+  type: Type.OBJECT,
+  properties: {
+    isSarcastic: { type: Type.BOOLEAN },
+    confidence: { type: Type.NUMBER },
+    literalSentiment: { type: Type.STRING, enum: sentimentEnum }
+  },
+  required: ["isSarcastic", "confidence"]
+};
+
+// Words and phrases that drove the label, located by the service layer from the copied text and offsets
+const evidenceSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING },
+      start: { type: Type.INTEGER },
+      end: { type: Type.INTEGER },
+      polarity: { type: Type.STRING, enum: [SentimentType.POSITIVE, SentimentType.NEGATIVE] },
+      weight: { type: Type.NUMBER }
+    },
+    required: ["text", "polarity", "weight"]
+  }
+};
+
+const EVIDENCE_INSTRUCTIONS = `List the evidence: the words or short phrases that drove the sentiment, each copied exactly from the tweet
+    with its character offsets (start inclusive, end exclusive), its polarity (Positive or Negative) and its weight (0.0 to 1.0).`;
+
+const LANGUAGE_INSTRUCTIONS = `The tweet may be in any language: judge its sentiment in the original language, without translating first.
+    Report its ISO 639-1 language code and, if it is not English, an English translation.`;
+
+const SARCASM_INSTRUCTIONS = `Detect sarcasm or irony. The sentiment must reflect what the author actually means
+    (a sarcastic "Great, another update that broke everything" is Negative); when a tweet is sarcastic,
+    give the surface reading as literalSentiment.`;
+
+// Intensity (0-1) for each of the eight basic emotions
+const emotionsSchema = {
+  type: Type.OBJECT,
+  properties: Object.fromEntries(Object.values(EmotionType).map(emotion => [emotion, { type: Type.NUMBER }])),
+  required: Object.values(EmotionType)
+};
+
+const getGeminiAI = () => {
+  const apiKey = getApiKey('gemini');
+  if (!apiKey) {
+    throw new Error("API_KEY_MISSING");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+// Shared by generate and generateStream
+const generationRequest = (topic: string, count: number) => {
+  const prompt = `Generate ${count} realistic tweets about the topic "${topic}".
+  Vary the labels and sentiment widely (some positive, some negative, some neutral, some sarcastic).
+  Some tweets should praise one aspect of the topic and criticize another.
+  For each tweet, provide the tweet text and its analysis immediately: its label, one of ${getTaxonomy().labels.map(label => label.name).join(', ')}
+  (with that label's polarity as the sentiment), the sentiment toward each aspect it mentions
+  and the intensity (0.0 to 1.0) of each basic emotion: ${Object.values(EmotionType).join(', ')}.
+  ${SARCASM_INSTRUCTIONS}
+  ${EVIDENCE_INSTRUCTIONS}
+  Include each tweet's ISO 639-1 language code, and an English translation for any tweet that is not in English.`;
+
+  return {
+    model: getModelName(),
+    contents: prompt,
+    config: {
+      ...generationConfig(),
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            text: { type: Type.STRING },
+            label: labelSchema(),
+            sentiment: { type: Type.STRING, enum: sentimentEnum },
+            score: { type: Type.NUMBER },
+            reasoning: { type: Type.STRING },
+            keywords: { type: Type.ARRAY, items: { type: Type.STRING } },
+            aspects: aspectsSchema,
+            emotions: emotionsSchema,
+            sarcasm: sarcasmSchema,
+            language: { type: Type.STRING },
+            translation: { type: Type.STRING },
+            evidence: evidenceSchema
+          },
+          required: ["text", "label", "sentiment", "score", "reasoning", "keywords"]
+        }
+      }
+    }
+  };
+};
+
+export const geminiProvider: SentimentProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  accent: 'blue',
+  requiresKey: true,
+  keyUrl: "https://aistudio.google.com/apikey",
+  defaultModel: DEFAULT_MODEL,
+  modelOptions: ["gemini-2.5-flash", "gemini-2.5-flash-lite", "gemini-2.5-pro", "gemini-2.0-flash"],
+  promptVersion: 3,
+
+  getModel: getModelName,
+
+  hasKey: () => !!getApiKey('gemini'),
+
+  analyze: async (text) => {
+    const ai = getGeminiAI();
+    const prompt = `${renderClassificationPrompt(getTaxonomy(), text)}
+
+    ${LABEL_INSTRUCTIONS} Provide a confidence score (0.0 to 1.0) for the label,
+    a brief reasoning explaining why, and extract up to 3 key keywords relating to the label.
+    Also list the aspects the tweet evaluates (e.g. "camera", "battery", "price") with the sentiment and confidence toward each one;
+    use a short lowercase noun for each aspect and return an empty list if no specific aspect is mentioned.
+    Finally rate the intensity (0.0 to 1.0) of each basic emotion: ${Object.values(EmotionType).join(', ')}.
+    ${SARCASM_INSTRUCTIONS}
+    ${EVIDENCE_INSTRUCTIONS}
+    ${LANGUAGE_INSTRUCTIONS}`;
+
+    const response = await ai.models.generateContent({
+      model: getModelName(),
+      contents: prompt,
+      config: {
+        ...generationConfig(),
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            label: labelSchema(),
+            sentiment: { type: Type.STRING, enum: sentimentEnum },
+            score: { type: Type.NUMBER },
+            reasoning: { type: Type.STRING },
+            keywords: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING }
+            },
+            aspects: aspectsSchema,
+            emotions: emotionsSchema,
+            sarcasm: sarcasmSchema,
+            language: { type: Type.STRING },
+            translation: { type: Type.STRING },
+            evidence: evidenceSchema
+          },
+          required: ["label", "sentiment", "score", "reasoning", "keywords"]
+        }
+      }
+    });
+    return JSON.parse(response.text || "{}");
+  },
+
+  generate: async (topic, count) => {
+    const response = await getGeminiAI().models.generateContent(generationRequest(topic, count));
+    return JSON.parse(response.text || "[]");
+  },
+
+  async *generateStream(topic, count) {
+    const stream = await getGeminiAI().models.generateContentStream(generationRequest(topic, count));
+    for await (const chunk of stream) {
+      if (chunk.text) yield chunk.text;
+    }
+  },
+
+  explain: async (concept) => {
+    const ai = getGeminiAI();
+    const prompt = `Explain the NLP concept "${concept}" simply, as if it were a markdown cell in a Kaggle data science notebook. Keep it under 100 words.`;
+    const response = await ai.models.generateContent({
+      model: getModelName(),
+      contents: prompt,
+      config: generationConfig()
+    });
+    return response.text || "Could not generate explanation.";
+  }
+};
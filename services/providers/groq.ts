@@ -0,0 +1,12 @@
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+
+export const groqProvider = createOpenAICompatibleProvider({
+  id: 'groq',
+  label: 'Groq',
+  accent: 'orange',
+  requiresKey: true,
+  keyUrl: "https://console.groq.com/keys",
+  baseUrl: "https://api.groq.com/openai/v1",
+  defaultModel: "llama-3.1-8b-instant",
+  modelOptions: ["llama-3.1-8b-instant", "llama-3.3-70b-versatile", "openai/gpt-oss-20b", "openai/gpt-oss-120b"]
+});
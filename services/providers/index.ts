@@ -0,0 +1,29 @@
+import { SentimentProvider } from "./types";
+import { geminiProvider } from "./gemini";
+import { groqProvider } from "./groq";
+import { offlineProvider } from "./offline";
+import { localProvider } from "./local";
+
+export type { SentimentProvider, ProviderAccent } from "./types";
+
+const registry = new Map<string, SentimentProvider>();
+
+/**
+ * Adds (or replaces) a provider. Registration order is the order shown in the header toggle.
+ */
+export const registerProvider = (provider: SentimentProvider) => {
+  registry.set(provider.id, provider);
+};
+
+export const getProvider = (id: string): SentimentProvider => {
+  const provider = registry.get(id);
+  if (!provider) throw new Error(`Unknown AI provider: ${id}`);
+  return provider;
+};
+
+export const listProviders = (): SentimentProvider[] => Array.from(registry.values());
+
+registerProvider(geminiProvider);
+registerProvider(groqProvider);
+registerProvider(offlineProvider);
+registerProvider(localProvider);
@@ -0,0 +1,14 @@
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp's server listens on http://localhost:8080/v1.
+// Build-time defaults come from .env.local and can be changed in the settings panel.
+export const localProvider = createOpenAICompatibleProvider({
+  id: 'local',
+  label: 'Local (OpenAI-compatible)',
+  accent: 'emerald',
+  requiresKey: false,
+  baseUrl: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+  configurableBaseUrl: true,
+  defaultModel: process.env.LOCAL_LLM_MODEL || "llama3.1",
+  modelOptions: ["llama3.1", "qwen2.5", "mistral", "gemma2"]
+});
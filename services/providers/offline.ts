@@ -0,0 +1,43 @@
+import { classifyOffline } from "../offline/classifier";
+import { generateSyntheticTweets, DEFAULT_SYNTHETIC_CONFIG, randomSeed } from "../offline/synthetic";
+import { OFFLINE_EXPLANATIONS } from "../offline/explanations";
+import { SentimentProvider } from "./types";
+
+// A fresh seed per request, like sampling a model; Demo Mode uses the seeded generator directly
+const generateItems = (topic: string, count: number) =>
+  generateSyntheticTweets(topic, count, { ...DEFAULT_SYNTHETIC_CONFIG, seed: randomSeed() })
+    .map(({ text }) => ({ text, ...classifyOffline(text) }));
+
+/**
+ * In-browser provider: VADER-style lexicon classifier, template-based dataset
+ * generation and bundled concept explanations. Needs no API key or network.
+ */
+export const offlineProvider: SentimentProvider = {
+  id: 'offline',
+  label: 'Offline',
+  accent: 'violet',
+  requiresKey: false,
+  defaultModel: "vader-lexicon",
+  promptVersion: 2, // Lexicon version; the classifier has no prompt
+
+  getModel: () => "vader-lexicon",
+
+  hasKey: () => true,
+
+  analyze: async (text) => classifyOffline(text),
+
+  generate: async (topic, count) => generateItems(topic, count),
+
+  // Emits one tweet per chunk, like a model streaming a JSON array
+  async *generateStream(topic, count) {
+    const items = generateItems(topic, count);
+    for (let i = 0; i < items.length; i++) {
+      yield `${i === 0 ? '[' : ','}${JSON.stringify(items[i])}`;
+    }
+    yield items.length ? ']' : '[]';
+  },
+
+  explain: async (concept) =>
+    OFFLINE_EXPLANATIONS[concept] ||
+    `${concept} is a fundamental technique in NLP. In a real notebook, this cell would explain how ${concept} transforms raw text into structured data suitable for machine learning models using libraries like NLTK or scikit-learn.`
+};
@@ -0,0 +1,189 @@
+import { EmotionType } from "../../types";
+import { ChatMessage, ProviderAccent, SentimentProvider } from "./types";
+import { getSettings, getProviderSettings, getApiKey, getTaxonomy } from "../settingsService";
+import { renderClassificationPrompt, labelUnion } from "../taxonomyService";
+
+interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. https://api.groq.com/openai/v1 or http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+}
+
+// JSON shape of the emotion intensities requested in the prompts, e.g. { "joy": number (0-1), "anger": number (0-1), ... }
+const EMOTIONS_SHAPE = `{ ${Object.values(EmotionType).map(e => `"${e}": number (0-1)`).join(', ')} }`;
+
+// Words and phrases that drove the label; the service layer re-locates them from the copied text
+const EVIDENCE_SHAPE = `[{ "text": "words copied exactly from the tweet", "start": number, "end": number, "polarity": "Positive" | "Negative", "weight": number (0-1) }]`;
+
+interface OpenAICompatibleOptions {
+  id: string;
+  label: string;
+  accent: ProviderAccent;
+  requiresKey: boolean;
+  keyUrl?: string;
+  baseUrl: string;
+  configurableBaseUrl?: boolean; // Let the settings panel point the provider at another server
+  defaultModel: string;
+  modelOptions?: string[];
+}
+
+/**
+ * Resolves endpoint, model and key from the runtime settings on every call,
+ * so changes in the settings panel apply immediately.
+ */
+const getConfig = (options: OpenAICompatibleOptions): OpenAICompatibleConfig => {
+  const settings = getProviderSettings(options.id);
+  return {
+    baseUrl: (options.configurableBaseUrl && settings.baseUrl) || options.baseUrl,
+    model: settings.model || options.defaultModel,
+    apiKey: getApiKey(options.id)
+  };
+};
+
+/**
+ * POSTs to a `/chat/completions` endpoint that speaks the OpenAI wire format
+ * (Groq, Ollama, llama.cpp server, vLLM, ...). `body` is merged over the default settings.
+ */
+const postChatCompletions = async (options: OpenAICompatibleOptions, body: Record<string, unknown>): Promise<Response> => {
+  const config = getConfig(options);
+  const { temperature, maxTokens } = getSettings();
+  if (options.requiresKey && !config.apiKey) throw new Error("API_KEY_MISSING");
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKey) headers["Authorization"] = `Bearer ${config.apiKey}`;
+
+  try {
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        temperature,
+        max_tokens: maxTokens,
+        ...body
+      })
+    });
+
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      // Keep the HTTP status so the batch pipeline can decide whether to retry
+      throw Object.assign(new Error(err.error?.message || `${options.label} API Error: ${response.statusText}`), { status: response.status });
+    }
+    return response;
+  } catch (error: any) {
+    throw Object.assign(new Error(error.message || `Failed to connect to ${options.label} API`), { status: error.status });
+  }
+};
+
+const callChatCompletions = async (options: OpenAICompatibleOptions, messages: ChatMessage[], jsonMode: boolean = true) => {
+  const response = await postChatCompletions(options, {
+    messages: messages,
+    response_format: jsonMode ? { type: "json_object" } : undefined
+  });
+  const data = await response.json();
+  return data.choices[0]?.message?.content || "{}";
+};
+
+/**
+ * Streams a chat completion over server-sent events and yields the content deltas.
+ * JSON mode is not requested: some servers (Groq among them) reject it for streamed
+ * responses, so the prompt alone asks for JSON.
+ */
+const streamChatCompletions = async function* (options: OpenAICompatibleOptions, messages: ChatMessage[]) {
+  const response = await postChatCompletions(options, { messages, stream: true });
+  if (!response.body) throw new Error(`${options.label} API returned an empty stream.`);
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let pending = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    const lines = (pending + value).split("\n");
+    pending = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.startsWith("data:")) continue; // Blank separators and SSE comments
+      const data = line.slice(5).trim();
+      if (data === "[DONE]") return;
+      const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (delta) yield delta as string;
+    }
+  }
+};
+
+// Shared by generate and generateStream
+const generationMessages = (topic: string, count: number): ChatMessage[] => [
+  {
+    role: "system",
+    content: `Generate ${count} tweets about "${topic}". Vary the labels and sentiment; some tweets should praise one aspect and criticize another.
+    Respond with JSON only: an object with a key "tweets" containing an array of objects.
+    Each object must follow this schema: { "text": "tweet content", "label": ${labelUnion(getTaxonomy())}, "sentiment": "Positive" | "Negative" | "Neutral", "score": number, "reasoning": "string", "keywords": ["string"],
+      "aspects": [{ "aspect": "string", "sentiment": "Positive" | "Negative" | "Neutral", "score": number }],
+      "emotions": ${EMOTIONS_SHAPE},
+      "sarcasm": { "isSarcastic": boolean, "confidence": number, "literalSentiment": "Positive" | "Negative" | "Neutral" },
+      "evidence": ${EVIDENCE_SHAPE},
+      "language": "ISO 639-1 code", "translation": "English translation (omit for English tweets)" }
+    "sentiment" is the polarity of the label. For sarcastic tweets, it is the intended meaning and "literalSentiment" the surface reading.`
+  },
+  { role: "user", content: `Generate tweets about ${topic}` }
+];
+
+/**
+ * Builds a provider for any OpenAI-compatible chat completions server.
+ */
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): SentimentProvider => ({
+  id: options.id,
+  label: options.label,
+  accent: options.accent,
+  requiresKey: options.requiresKey,
+  keyUrl: options.keyUrl,
+  defaultModel: options.defaultModel,
+  modelOptions: options.modelOptions,
+  defaultBaseUrl: options.configurableBaseUrl ? options.baseUrl : undefined,
+  // The analyze prompt is shared by every OpenAI-compatible provider
+  promptVersion: 3,
+
+  getModel: () => getConfig(options).model,
+
+  hasKey: () => !options.requiresKey || !!getApiKey(options.id),
+
+  analyze: async (text) => {
+    const taxonomy = getTaxonomy();
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content: `You are a text classification expert. Classify the tweet. Return a JSON object with this structure:
+        { "label": ${labelUnion(taxonomy)}, "sentiment": "Positive" | "Negative" | "Neutral", "score": number (0-1), "reasoning": "string", "keywords": ["string"],
+          "aspects": [{ "aspect": "string", "sentiment": "Positive" | "Negative" | "Neutral", "score": number (0-1) }],
+          "emotions": ${EMOTIONS_SHAPE},
+          "sarcasm": { "isSarcastic": boolean, "confidence": number (0-1), "literalSentiment": "Positive" | "Negative" | "Neutral" },
+          "evidence": ${EVIDENCE_SHAPE},
+          "language": "ISO 639-1 code", "translation": "English translation (omit for English tweets)" }
+        "sentiment" is the polarity given next to the chosen label, and "score" the confidence in the label.
+        "evidence" lists the words or short phrases that drove the label, with character offsets into the tweet (end exclusive).
+        The tweet may be in any language; judge its sentiment in the original language, without translating first.
+        "aspects" lists each thing the tweet evaluates (e.g. "camera", "battery") as a short lowercase noun; use [] if none.
+        "sentiment" is what the author actually means: a sarcastic "Great, another update that broke everything" is Negative,
+        with the surface reading given as "literalSentiment".`
+      },
+      { role: "user", content: renderClassificationPrompt(taxonomy, text) }
+    ];
+    const jsonStr = await callChatCompletions(options, messages);
+    return JSON.parse(jsonStr);
+  },
+
+  generate: async (topic, count) => {
+    const jsonStr = await callChatCompletions(options, generationMessages(topic, count));
+    return JSON.parse(jsonStr);
+  },
+
+  generateStream: (topic, count) => streamChatCompletions(options, generationMessages(topic, count)),
+
+  explain: async (concept) => {
+    const messages: ChatMessage[] = [
+      { role: "system", content: "You are a data science tutor." },
+      { role: "user", content: `Explain the NLP concept "${concept}" simply, as if it were a markdown cell in a Kaggle data science notebook. Keep it under 100 words. Output raw text, not JSON.` }
+    ];
+    // Note: false for jsonMode
+    return await callChatCompletions(options, messages, false);
+  }
+});
@@ -0,0 +1,64 @@
+import { SentimentProvider } from "./types";
+import { getSettings, getTaxonomy } from "../settingsService";
+import { markUncacheable } from "../cacheService";
+
+// Same origin by default; `npm run dev` forwards /api to the proxy server (see vite.config.ts)
+const proxyBaseUrl = () => (getSettings().proxyUrl || "/api").replace(/\/+$/, '');
+
+/**
+ * POSTs an operation to the proxy server. The body names the provider and carries the
+ * settings it should use, label taxonomy included; the key itself stays on the server.
+ */
+const postToProxy = async (base: SentimentProvider, route: string, body: Record<string, unknown>): Promise<Response> => {
+  const { temperature, maxTokens } = getSettings();
+  try {
+    const response = await fetch(`${proxyBaseUrl()}/${route}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ provider: base.id, model: base.getModel(), temperature, maxTokens, taxonomy: getTaxonomy(), ...body })
+    });
+
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      // Keep the HTTP status (429 from the rate limiter included) so the batch pipeline can retry
+      throw Object.assign(new Error(err.error || `Proxy Error: ${response.statusText}`), { status: response.status });
+    }
+    return response;
+  } catch (error: any) {
+    throw Object.assign(new Error(error.message || "Failed to connect to the API proxy"), { status: error.status });
+  }
+};
+
+/**
+ * Wraps a key-holding provider so its calls go through the API proxy server instead of
+ * straight to the provider. Id, model and prompt version are the wrapped provider's,
+ * so cached responses are shared between both transports. Answers from a proxy in stub
+ * mode come from the offline classifier and are never cached.
+ */
+export const createProxyProvider = (base: SentimentProvider): SentimentProvider => ({
+  ...base,
+
+  // The server holds the key; a missing one comes back as API_KEY_MISSING
+  hasKey: () => true,
+
+  analyze: async (text) => {
+    const { result, stub } = await (await postToProxy(base, "analyze", { text })).json();
+    return stub && result && typeof result === "object" ? markUncacheable(result) : result;
+  },
+
+  generate: async (topic, count) => (await (await postToProxy(base, "generate", { topic, count })).json()).result,
+
+  // The server relays the provider's text stream as a plain chunked body
+  async *generateStream(topic, count) {
+    const response = await postToProxy(base, "generate", { topic, count, stream: true });
+    if (!response.body) throw new Error("The API proxy returned an empty stream.");
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  },
+
+  explain: async (concept) => (await (await postToProxy(base, "explain", { concept })).json()).result
+});
@@ -0,0 +1,31 @@
+// Accent colour used by the UI for a provider's toggle, badges and buttons
+export type ProviderAccent = 'blue' | 'orange' | 'emerald' | 'violet';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * A sentiment backend. Each provider implements the three service operations once;
+ * `analyze` and `generate` return the model's parsed JSON as-is, and the service layer
+ * validates and repairs it. `generateStream`, when present, makes the same request as
+ * `generate` but yields the raw response text as it arrives.
+ */
+export interface SentimentProvider {
+  id: string;
+  label: string;
+  accent: ProviderAccent;
+  requiresKey: boolean; // The API key is entered at runtime in the settings panel
+  keyUrl?: string; // Where to create an API key
+  defaultModel: string;
+  modelOptions?: string[]; // Suggestions in the settings panel (any model id can be typed); omitted when the model is fixed
+  defaultBaseUrl?: string; // Set when the endpoint is configurable, e.g. a self-hosted server
+  promptVersion: number; // Bump whenever the analyze prompt or schema changes; cached responses of other versions are ignored
+  getModel(): string;
+  hasKey(): boolean;
+  analyze(text: string): Promise<any>;
+  generate(topic: string, count: number): Promise<any>;
+  generateStream?(topic: string, count: number): AsyncIterable<string>;
+  explain(concept: string): Promise<string>;
+}
@@ -0,0 +1,73 @@
+import { RuntimeSettings, ProviderSettings, LabelTaxonomy } from "../types";
+import { SENTIMENT_TAXONOMY, validateTaxonomy } from "./taxonomyService";
+
+const SETTINGS_KEY = "sentimai.settings";
+// sessionStorage: keys are forgotten when the tab closes and never end up in the bundle
+const API_KEYS_KEY = "sentimai.apiKeys";
+
+export const DEFAULT_SETTINGS: RuntimeSettings = {
+  providers: {},
+  transport: 'direct',
+  proxyUrl: "",
+  temperature: 0.5,
+  maxTokens: 4096,
+  generationBatchSize: 10,
+  taxonomy: SENTIMENT_TAXONOMY
+};
+
+/**
+ * Where providers read their settings and keys from. The browser uses web storage; the
+ * proxy server swaps in its own source (per-request settings, keys from its environment).
+ */
+export interface SettingsSource {
+  getSettings(): RuntimeSettings;
+  getApiKey(providerId: string): string | undefined;
+}
+
+// Storage can be unavailable (private mode, tests outside the browser); treat that as empty
+const readJson = (storage: () => Storage, key: string): Record<string, any> => {
+  try {
+    return JSON.parse(storage().getItem(key) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const webStorageSource: SettingsSource = {
+  getSettings: () => ({ ...DEFAULT_SETTINGS, ...readJson(() => localStorage, SETTINGS_KEY) }),
+  getApiKey: (providerId) => readJson(() => sessionStorage, API_KEYS_KEY)[providerId] || undefined
+};
+
+let source = webStorageSource;
+
+export const setSettingsSource = (next: SettingsSource) => {
+  source = next;
+};
+
+export const getSettings = (): RuntimeSettings => source.getSettings();
+
+export const saveSettings = (settings: RuntimeSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getProviderSettings = (providerId: string): ProviderSettings => getSettings().providers[providerId] || {};
+
+/**
+ * The label taxonomy every provider classifies into. A stored taxonomy that no longer
+ * validates (hand-edited storage, an older format) falls back to the 3-way sentiment preset.
+ */
+export const getTaxonomy = (): LabelTaxonomy => {
+  const { taxonomy } = getSettings();
+  return taxonomy && !validateTaxonomy(taxonomy) ? taxonomy : SENTIMENT_TAXONOMY;
+};
+
+export const getApiKey = (providerId: string): string | undefined => source.getApiKey(providerId);
+
+/**
+ * Stores (or, with an empty value, forgets) a provider's API key for this browser tab.
+ */
+export const setApiKey = (providerId: string, apiKey: string) => {
+  const { [providerId]: _previous, ...keys } = readJson(() => sessionStorage, API_KEYS_KEY);
+  const trimmed = apiKey.trim();
+  sessionStorage.setItem(API_KEYS_KEY, JSON.stringify(trimmed ? { ...keys, [providerId]: trimmed } : keys));
+};
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  validateTaxonomy,
+  labelForPolarity,
+  renderClassificationPrompt,
+  labelSeries,
+  SENTIMENT_TAXONOMY,
+  FIVE_POINT_TAXONOMY,
+  FEEDBACK_TAXONOMY,
+  TAXONOMY_PRESETS,
+  POLARITY_COLORS
+} from "./taxonomyService";
+import { SentimentType, LabelTaxonomy } from "../types";
+
+const withChanges = (changes: Partial<LabelTaxonomy>): LabelTaxonomy => ({ ...FEEDBACK_TAXONOMY, ...changes });
+
+describe("validateTaxonomy", () => {
+  it("accepts every preset", () => {
+    TAXONOMY_PRESETS.forEach(preset => expect(validateTaxonomy(preset)).toBeUndefined());
+  });
+
+  it("reports the first problem", () => {
+    const [complaint, praise] = FEEDBACK_TAXONOMY.labels;
+    expect(validateTaxonomy(withChanges({ labels: [complaint] }))).toBe("Define at least two labels.");
+    expect(validateTaxonomy(withChanges({ labels: [complaint, { ...praise, name: " complaint " }] }))).toBe("Duplicate label: complaint");
+    expect(validateTaxonomy(withChanges({ labels: [complaint, { ...praise, name: "" }] }))).toBe("Every label needs a name.");
+    expect(validateTaxonomy(withChanges({ labels: [complaint, { ...praise, color: "green" }] }))).toBe("Invalid color for Praise.");
+    expect(validateTaxonomy(withChanges({ labels: [complaint, { ...praise, polarity: "Happy" as SentimentType }] }))).toBe("Invalid polarity for Praise.");
+    expect(validateTaxonomy(withChanges({ promptTemplate: "  " }))).toBe("The prompt template is empty.");
+    expect(validateTaxonomy(withChanges({ examples: [{ text: "Great!", label: "Praise!" }] }))).toBe("Example labeled with an unknown label: Praise!");
+  });
+
+  it("rejects malformed input instead of throwing", () => {
+    expect(validateTaxonomy({ labels: "nope" } as unknown as LabelTaxonomy)).toBe("Malformed taxonomy.");
+  });
+});
+
+describe("labelForPolarity", () => {
+  it("picks the mild label of a polarity, or the strong one when confident", () => {
+    expect(labelForPolarity(FIVE_POINT_TAXONOMY, SentimentType.POSITIVE, 0.6)).toBe("Positive");
+    expect(labelForPolarity(FIVE_POINT_TAXONOMY, SentimentType.POSITIVE, 0.9)).toBe("Very positive");
+    expect(labelForPolarity(FIVE_POINT_TAXONOMY, SentimentType.NEGATIVE, 0.95)).toBe("Very negative");
+    expect(labelForPolarity(SENTIMENT_TAXONOMY, SentimentType.NEUTRAL, 0.5)).toBe(SentimentType.NEUTRAL);
+  });
+
+  it("is undefined when no label has that polarity", () => {
+    const twoWay = withChanges({ labels: FEEDBACK_TAXONOMY.labels.filter(l => l.polarity !== SentimentType.NEUTRAL) });
+    expect(labelForPolarity(twoWay, SentimentType.NEUTRAL, 0.5)).toBeUndefined();
+  });
+});
+
+describe("renderClassificationPrompt", () => {
+  it("fills labels, examples and the tweet", () => {
+    const prompt = renderClassificationPrompt(FEEDBACK_TAXONOMY, "Where is my order?");
+    expect(prompt).toContain("- Complaint (Negative): Reports a problem or expresses dissatisfaction");
+    expect(prompt).toContain('Tweet: "Does the premium plan include offline downloads?"\nLabel: Question');
+    expect(prompt.endsWith('Tweet: "Where is my order?"')).toBe(true);
+  });
+
+  it("appends the tweet to a template without {{tweet}} and keeps $ patterns literally", () => {
+    const prompt = renderClassificationPrompt(withChanges({ promptTemplate: "Labels:\n{{labels}}", examples: [] }), "Costs $& and $1");
+    expect(prompt.endsWith('Tweet: "Costs $& and $1"')).toBe(true);
+  });
+
+  it("leaves no gap where an empty {{examples}} was", () => {
+    expect(renderClassificationPrompt(SENTIMENT_TAXONOMY, "ok")).not.toMatch(/\n{3,}/);
+  });
+});
+
+describe("labelSeries", () => {
+  it("orders taxonomy labels first and matches them case-insensitively", () => {
+    const series = labelSeries(FEEDBACK_TAXONOMY, ["Other", "Mystery", "praise", "Complaint"]);
+    expect(series).toEqual([
+      { name: "Complaint", color: "#ef4444" },
+      { name: "praise", color: "#22c55e" },
+      { name: "Other", color: "#94a3b8" },
+      { name: "Mystery", color: POLARITY_COLORS[SentimentType.NEUTRAL] }
+    ]);
+  });
+
+  it("colors labels from another taxonomy by polarity when their name is one", () => {
+    expect(labelSeries(FEEDBACK_TAXONOMY, [SentimentType.POSITIVE])).toEqual([
+      { name: SentimentType.POSITIVE, color: POLARITY_COLORS[SentimentType.POSITIVE] }
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+import { SentimentType, SentimentAnalysis, HumanReview, LabelTaxonomy, LabelDefinition } from "../types";
+
+export const DEFAULT_PROMPT_TEMPLATE = `Classify the following tweet with exactly one of these labels:
+{{labels}}
+
+{{examples}}
+
+Tweet: "{{tweet}}"`;
+
+// Colors of the fixed polarities; also used for labels that are not in the active taxonomy
+export const POLARITY_COLORS: Record<SentimentType, string> = {
+  [SentimentType.POSITIVE]: '#22c55e', // green-500
+  [SentimentType.NEGATIVE]: '#ef4444', // red-500
+  [SentimentType.NEUTRAL]: '#94a3b8' // slate-400
+};
+
+export const SENTIMENT_TAXONOMY: LabelTaxonomy = {
+  id: 'sentiment',
+  name: 'Sentiment (3-way)',
+  labels: [
+    { name: SentimentType.POSITIVE, color: POLARITY_COLORS[SentimentType.POSITIVE], polarity: SentimentType.POSITIVE, description: "The author approves, enjoys or recommends something" },
+    { name: SentimentType.NEUTRAL, color: POLARITY_COLORS[SentimentType.NEUTRAL], polarity: SentimentType.NEUTRAL, description: "Factual, mixed or no clear opinion" },
+    { name: SentimentType.NEGATIVE, color: POLARITY_COLORS[SentimentType.NEGATIVE], polarity: SentimentType.NEGATIVE, description: "The author disapproves, is frustrated or warns others" }
+  ],
+  promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+  examples: []
+};
+
+export const FIVE_POINT_TAXONOMY: LabelTaxonomy = {
+  id: 'five-point',
+  name: '5-point scale',
+  labels: [
+    { name: "Very negative", color: '#b91c1c', polarity: SentimentType.NEGATIVE, description: "Angry, furious or strongly disappointed" },
+    { name: "Negative", color: '#f87171', polarity: SentimentType.NEGATIVE, description: "Mildly unhappy or critical" },
+    { name: "Neutral", color: '#94a3b8', polarity: SentimentType.NEUTRAL, description: "Factual, mixed or no clear opinion" },
+    { name: "Positive", color: '#4ade80', polarity: SentimentType.POSITIVE, description: "Mildly pleased or approving" },
+    { name: "Very positive", color: '#15803d', polarity: SentimentType.POSITIVE, description: "Delighted, enthusiastic or raving" }
+  ],
+  promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+  examples: [
+    { text: "Worst purchase of my life. Broke in two days and support hung up on me.", label: "Very negative" },
+    { text: "Battery could be better, drains faster than I expected.", label: "Negative" },
+    { text: "Honestly the best phone I've ever owned, the camera is unreal!", label: "Very positive" }
+  ]
+};
+
+export const FEEDBACK_TAXONOMY: LabelTaxonomy = {
+  id: 'feedback',
+  name: 'Customer feedback',
+  labels: [
+    { name: "Complaint", color: '#ef4444', polarity: SentimentType.NEGATIVE, description: "Reports a problem or expresses dissatisfaction" },
+    { name: "Praise", color: '#22c55e', polarity: SentimentType.POSITIVE, description: "Compliments the product, service or team" },
+    { name: "Other", color: '#94a3b8', polarity: SentimentType.NEUTRAL, description: "News, jokes, chatter or anything else" },
+    { name: "Question", color: '#3b82f6', polarity: SentimentType.NEUTRAL, description: "Asks for information or help" }
+  ],
+  promptTemplate: `You triage customer feedback posted on social media.
+Assign the tweet exactly one of these labels:
+{{labels}}
+
+A tweet that asks for help because something is broken is a Complaint, not a Question.
+
+{{examples}}
+
+Tweet: "{{tweet}}"`,
+  examples: [
+    { text: "Third time this week the app logged me out mid-order. Fix it.", label: "Complaint" },
+    { text: "Does the premium plan include offline downloads?", label: "Question" },
+    { text: "Shoutout to the support team, sorted my refund in minutes!", label: "Praise" }
+  ]
+};
+
+export const TAXONOMY_PRESETS: LabelTaxonomy[] = [SENTIMENT_TAXONOMY, FIVE_POINT_TAXONOMY, FEEDBACK_TAXONOMY];
+
+const MAX_LABELS = 12;
+const MAX_EXAMPLES = 10;
+const MAX_LABEL_LENGTH = 40;
+const MAX_TEMPLATE_LENGTH = 4000;
+const MAX_EXAMPLE_LENGTH = 500;
+const POLARITIES = new Set<unknown>(Object.values(SentimentType));
+
+/**
+ * Checks a taxonomy before it is saved or accepted by the proxy. Returns the first problem
+ * as a message for the settings panel, or undefined when the taxonomy is usable.
+ */
+export const validateTaxonomy = (taxonomy: LabelTaxonomy): string | undefined => {
+  if (!taxonomy || !Array.isArray(taxonomy.labels) || !Array.isArray(taxonomy.examples)) return "Malformed taxonomy.";
+  const { labels, examples, promptTemplate } = taxonomy;
+  if (labels.length < 2) return "Define at least two labels.";
+  if (labels.length > MAX_LABELS) return `Use at most ${MAX_LABELS} labels.`;
+
+  const names = new Set<string>();
+  for (const label of labels) {
+    const name = typeof label?.name === 'string' ? label.name.trim() : '';
+    if (!name) return "Every label needs a name.";
+    if (name.length > MAX_LABEL_LENGTH) return `Label names can have at most ${MAX_LABEL_LENGTH} characters.`;
+    if (names.has(name.toLowerCase())) return `Duplicate label: ${name}`;
+    names.add(name.toLowerCase());
+    if (typeof label.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(label.color)) return `Invalid color for ${name}.`;
+    if (!POLARITIES.has(label.polarity)) return `Invalid polarity for ${name}.`;
+    if (label.description !== undefined && typeof label.description !== 'string') return `Invalid description for ${name}.`;
+  }
+
+  if (typeof promptTemplate !== 'string' || !promptTemplate.trim()) return "The prompt template is empty.";
+  if (promptTemplate.length > MAX_TEMPLATE_LENGTH) return `The prompt template can have at most ${MAX_TEMPLATE_LENGTH} characters.`;
+
+  if (examples.length > MAX_EXAMPLES) return `Use at most ${MAX_EXAMPLES} examples.`;
+  for (const example of examples) {
+    if (typeof example?.text !== 'string' || !example.text.trim()) return "Every example needs a tweet.";
+    if (example.text.length > MAX_EXAMPLE_LENGTH) return `Examples can have at most ${MAX_EXAMPLE_LENGTH} characters.`;
+    if (typeof example.label !== 'string' || !names.has(example.label.trim().toLowerCase())) return `Example labeled with an unknown label: ${String(example.label)}`;
+  }
+  return undefined;
+};
+
+// Case- and whitespace-insensitive, since models do not always echo the exact casing
+export const findLabel = (taxonomy: LabelTaxonomy, name: unknown): LabelDefinition | undefined => {
+  if (typeof name !== 'string') return undefined;
+  const wanted = name.trim().toLowerCase();
+  return wanted ? taxonomy.labels.find(label => label.name.trim().toLowerCase() === wanted) : undefined;
+};
+
+/**
+ * The label used when a response has only a polarity (the offline classifier, older
+ * prompts) or a label that contradicts it. Among the labels of that polarity, the one
+ * nearest the middle of the list is the mild choice and the farthest the strong one,
+ * so on a scale ordered from negative to positive a confident reading picks the extreme.
+ * Undefined when the taxonomy has no label of that polarity.
+ */
+export const labelForPolarity = (taxonomy: LabelTaxonomy, polarity: SentimentType, score: number): string | undefined => {
+  const middle = (taxonomy.labels.length - 1) / 2;
+  const candidates = taxonomy.labels
+    .map((label, index) => ({ label, distance: Math.abs(index - middle) }))
+    .filter(c => c.label.polarity === polarity)
+    .sort((a, b) => a.distance - b.distance);
+  if (candidates.length === 0) return undefined;
+  return (score >= 0.85 ? candidates[candidates.length - 1] : candidates[0]).label.name;
+};
+
+// The label a tweet is shown and filtered by; analyses saved before taxonomies fall back to their polarity
+export const analysisLabel = (analysis: SentimentAnalysis): string => analysis.label ?? analysis.sentiment;
+
+export const reviewLabel = (review: HumanReview): string => review.label ?? review.sentiment;
+
+export const labelColor = (taxonomy: LabelTaxonomy, name: string, polarity: SentimentType): string =>
+  findLabel(taxonomy, name)?.color ?? POLARITY_COLORS[polarity];
+
+/**
+ * Chart series for a set of label names, keeping each name as given so it still looks up its
+ * counts: names of the taxonomy's labels first, in the taxonomy's order and colors, then
+ * labels from another taxonomy (older sessions). Those are colored by polarity when their
+ * name is one, grey otherwise. Names match the taxonomy the way `findLabel` does.
+ */
+export const labelSeries = (taxonomy: LabelTaxonomy, names: Iterable<string>): { name: string; color: string }[] => {
+  const positions = new Map(taxonomy.labels.map((label, index) => [label.name.trim().toLowerCase(), index]));
+  // Array.sort is stable, so labels outside the taxonomy keep the order they came in
+  return Array.from(new Set(names))
+    .map(name => ({ name, position: positions.get(name.trim().toLowerCase()) ?? taxonomy.labels.length }))
+    .sort((a, b) => a.position - b.position)
+    .map(({ name, position }) => ({
+      name,
+      color: taxonomy.labels[position]?.color ?? POLARITY_COLORS[name as SentimentType] ?? POLARITY_COLORS[SentimentType.NEUTRAL]
+    }));
+};
+
+// "- Complaint (Negative): Reports a problem ..." lines for the prompt
+const renderLabels = (taxonomy: LabelTaxonomy) =>
+  taxonomy.labels
+    .map(label => `- ${label.name} (${label.polarity})${label.description?.trim() ? `: ${label.description.trim()}` : ''}`)
+    .join('\n');
+
+const renderExamples = (taxonomy: LabelTaxonomy) =>
+  taxonomy.examples.length === 0
+    ? ''
+    : `Examples:\n${taxonomy.examples.map(e => `Tweet: "${e.text.trim()}"\nLabel: ${e.label.trim()}`).join('\n\n')}`;
+
+/**
+ * Fills the taxonomy's prompt template. A template without {{tweet}} gets the tweet appended,
+ * so a custom template can never drop it.
+ */
+export const renderClassificationPrompt = (taxonomy: LabelTaxonomy, text: string): string => {
+  const template = taxonomy.promptTemplate.includes('{{tweet}}') ? taxonomy.promptTemplate : `${taxonomy.promptTemplate}\n\nTweet: "{{tweet}}"`;
+  // Function replacements, so "$&" and friends in user text are kept literally
+  return template
+    .replace(/\{\{labels\}\}/g, () => renderLabels(taxonomy))
+    .replace(/\{\{examples\}\}/g, () => renderExamples(taxonomy))
+    .replace(/\{\{tweet\}\}/g, () => text)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// Label names as a prompt enumeration, e.g. "Complaint" | "Praise" | "Question"
+export const labelUnion = (taxonomy: LabelTaxonomy): string => taxonomy.labels.map(label => JSON.stringify(label.name)).join(' | ');
+
+/**
+ * Everything in a taxonomy that changes what the model is asked; part of the response cache
+ * key. Colors are display-only and left out.
+ */
+export const taxonomyFingerprint = (taxonomy: LabelTaxonomy): string =>
+  JSON.stringify([
+    taxonomy.labels.map(label => [label.name, label.polarity, label.description ?? '']),
+    taxonomy.promptTemplate,
+    taxonomy.examples.map(e => [e.text, e.label])
+  ]);
@@ -0,0 +1,55 @@
+import { TweetData, TweetFilters, TweetSortKey } from "../types";
+import { containsTerm } from "./keywordService";
+import { analysisLabel } from "./taxonomyService";
+
+export const DEFAULT_TWEET_FILTERS: TweetFilters = {
+  label: null,
+  minScore: 0,
+  maxScore: 1,
+  keyword: "",
+  author: "",
+  search: ""
+};
+
+export const hasActiveFilters = (filters: TweetFilters) =>
+  filters.label !== null || filters.minScore > 0 || filters.maxScore < 1 ||
+  !!filters.keyword.trim() || !!filters.author.trim() || !!filters.search.trim();
+
+/**
+ * Applies every set filter (all must match). Label and confidence filters only match
+ * analyzed tweets; text filters are case-insensitive.
+ */
+export const filterTweets = (tweets: TweetData[], filters: TweetFilters): TweetData[] => {
+  if (!hasActiveFilters(filters)) return tweets;
+  const keyword = filters.keyword.trim().toLowerCase();
+  const author = filters.author.trim().toLowerCase().replace(/^@/, '');
+  const search = filters.search.trim().toLowerCase();
+  const scoreFiltered = filters.minScore > 0 || filters.maxScore < 1;
+
+  return tweets.filter(tweet => {
+    const analysis = tweet.analysis;
+    if (filters.label && (!analysis || analysisLabel(analysis) !== filters.label)) return false;
+    if (scoreFiltered && (!analysis || analysis.score < filters.minScore || analysis.score > filters.maxScore)) return false;
+    if (keyword && !containsTerm(tweet, keyword) && !analysis?.keywords.some(kw => kw.toLowerCase() === keyword)) return false;
+    if (author && !tweet.author.toLowerCase().includes(author)) return false;
+    if (search && ![tweet.text, analysis?.translation, analysis?.reasoning].some(field => field?.toLowerCase().includes(search))) return false;
+    return true;
+  });
+};
+
+// Tweets without an analysis sort after scored ones either way
+const scoreOf = (tweet: TweetData, fallback: number) => tweet.analysis?.score ?? fallback;
+
+/**
+ * Returns a sorted copy; 'arrival' returns the input as-is.
+ */
+export const sortTweets = (tweets: TweetData[], sort: TweetSortKey): TweetData[] => {
+  const time = (tweet: TweetData) => new Date(tweet.timestamp).getTime() || 0;
+  switch (sort) {
+    case 'newest': return [...tweets].sort((a, b) => time(b) - time(a));
+    case 'oldest': return [...tweets].sort((a, b) => time(a) - time(b));
+    case 'score-desc': return [...tweets].sort((a, b) => scoreOf(b, -1) - scoreOf(a, -1));
+    case 'score-asc': return [...tweets].sort((a, b) => scoreOf(a, 2) - scoreOf(b, 2));
+    default: return tweets;
+  }
+};
@@ -4,11 +4,97 @@ export enum SentimentType {
   NEUTRAL = 'Neutral'
 }
 
-export interface SentimentAnalysis {
+// Plutchik's eight basic emotions
+export enum EmotionType {
+  JOY = 'joy',
+  ANGER = 'anger',
+  SADNESS = 'sadness',
+  FEAR = 'fear',
+  SURPRISE = 'surprise',
+  DISGUST = 'disgust',
+  TRUST = 'trust',
+  ANTICIPATION = 'anticipation'
+}
+
+// Intensity (0 to 1) of every emotion in a tweet
+export type EmotionScores = Record<EmotionType, number>;
+
+// Sentiment toward one aspect of the subject, e.g. "battery" in "camera is great, battery is awful"
+export interface AspectSentiment {
+  aspect: string;
   sentiment: SentimentType;
   score: number; // 0 to 1 confidence
+}
+
+// A span of the tweet text that pushed the label one way, e.g. "battery died" toward Negative
+export interface EvidenceSpan {
+  start: number; // Character offsets into the tweet text, end exclusive
+  end: number;
+  polarity: SentimentType.POSITIVE | SentimentType.NEGATIVE;
+  weight: number; // 0 to 1 strength of the span's contribution
+}
+
+// Sarcasm / irony detection. When sarcastic, `sentiment` holds the intended polarity
+// and `literalSentiment` the surface reading ("Great, another outage" -> Negative, literally Positive)
+export interface SarcasmFlag {
+  isSarcastic: boolean;
+  confidence: number; // 0 to 1
+  literalSentiment?: SentimentType;
+}
+
+// --- LABEL TAXONOMY ---
+
+// One class of a label scheme. `polarity` places it on the positive/neutral/negative axis that
+// trends, aspects, keywords and evaluation are computed on
+export interface LabelDefinition {
+  name: string; // What the model returns and the UI shows, e.g. "Complaint"
+  color: string; // Hex color of its badges and chart slices
+  polarity: SentimentType;
+  description?: string; // Told to the model, e.g. "The author reports a problem"
+}
+
+// A labeled tweet shown to the model before the one it classifies
+export interface FewShotExample {
+  text: string;
+  label: string; // Name of a label in the taxonomy
+}
+
+// The label scheme and classification prompt used by every provider
+export interface LabelTaxonomy {
+  id: string; // A preset id, or 'custom' once edited
+  name: string;
+  labels: LabelDefinition[];
+  promptTemplate: string; // May reference {{labels}}, {{examples}} and {{tweet}}
+  examples: FewShotExample[];
+}
+
+export interface SentimentAnalysis {
+  label?: string; // Label of the taxonomy active at analysis time; absent in sessions saved before taxonomies existed
+  sentiment: SentimentType; // Polarity of the label
+  score: number; // 0 to 1 confidence
   reasoning: string;
   keywords: string[];
+  aspects?: AspectSentiment[]; // Absent in sessions saved before aspect extraction existed
+  emotions?: EmotionScores; // Absent when the model returned no usable emotion intensities
+  sarcasm?: SarcasmFlag;
+  language?: string; // ISO 639-1 code of the tweet, e.g. "en", "es", "hi"
+  translation?: string; // English translation for non-English tweets, when the provider supplies one
+  evidence?: EvidenceSpan[]; // Sorted and non-overlapping; absent in sessions saved before evidence spans existed
+}
+
+// A reviewer's correction of the model label; the model's analysis is kept unchanged next to it
+export interface HumanReview {
+  label?: string; // Taxonomy label chosen by the reviewer; absent in reviews saved before taxonomies existed
+  sentiment: SentimentType; // Polarity of the label
+  note?: string;
+  reviewedAt: string; // ISO timestamp
+}
+
+// Model-vs-human agreement over the tweets a reviewer has labeled
+export interface ReviewSummary {
+  reviewed: number; // Reviewed tweets that also have a model label
+  agreed: number;
+  agreement: number; // agreed / reviewed, 0 when nothing is reviewed
 }
 
 export interface TweetData {
@@ -16,7 +102,17 @@ export interface TweetData {
   text: string;
   author: string;
   timestamp: string;
+  goldLabel?: SentimentType; // Human label from an imported dataset, if present
+  topic?: string; // Topic the tweet was generated for or mapped to; groups multi-topic runs
   analysis?: SentimentAnalysis;
+  review?: HumanReview; // Set when a reviewer relabeled the tweet in the app
+  error?: string; // Set when analysis failed for this tweet only
+}
+
+export interface BatchProgress {
+  total: number;
+  done: number;
+  failed: number;
 }
 
 export interface TopicSummary {
@@ -25,9 +121,182 @@ export interface TopicSummary {
   positiveCount: number;
   negativeCount: number;
   neutralCount: number;
+  labelCounts: Record<string, number>; // Tweets per taxonomy label; the polarity counts above roll these up
+  sarcasticCount: number;
   commonKeywords: { word: string; count: number }[];
 }
 
+// Sentiment counts for the tweets of one language
+export interface LanguageBreakdownRow {
+  language: string; // ISO 639-1 code, or "und" when unknown
+  total: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+}
+
+// Filters for the analyzed tweet stream; empty strings and the full 0-1 range mean "no filter"
+export interface TweetFilters {
+  label: string | null; // Taxonomy label, as shown on the tweet's badge
+  minScore: number; // Confidence range, 0 to 1
+  maxScore: number;
+  keyword: string; // Whole-word term in the text, or one of the model's keywords
+  author: string;
+  search: string; // Free text over tweet text, translation and reasoning
+}
+
+// Order of the tweet stream; 'arrival' keeps the order tweets were generated or imported in
+export type TweetSortKey = 'arrival' | 'newest' | 'oldest' | 'score-desc' | 'score-asc';
+
+// A word or phrase ranked by TF-IDF within one sentiment class
+export interface KeywordScore {
+  term: string; // Lowercase unigram, bigram or trigram
+  score: number; // Summed TF-IDF over the class's tweets
+  tweetCount: number; // Tweets of the class that contain the term
+}
+
+// Terms that only occur on one side: in positive tweets but no negative ones, and vice versa
+export interface SentimentKeywords {
+  positive: KeywordScore[];
+  negative: KeywordScore[];
+}
+
+// Per-aspect sentiment counts across a dataset
+export interface AspectSummary {
+  aspect: string;
+  total: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  avgScore: number;
+}
+
+// Average intensity of one emotion across a dataset, and how many tweets it dominates
+export interface EmotionProfilePoint {
+  emotion: EmotionType;
+  intensity: number;
+  dominantCount: number;
+}
+
+// Precision / recall / F1 of one gold label in an evaluation run
+export interface ClassMetrics {
+  label: SentimentType;
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number; // Number of tweets with this gold label
+}
+
+export interface EvaluationReport {
+  labels: SentimentType[]; // Row/column order of the confusion matrix
+  confusion: number[][]; // confusion[gold][predicted]
+  perClass: ClassMetrics[];
+  accuracy: number;
+  macroF1: number;
+  evaluated: number; // Tweets with both a gold label and a prediction
+  skipped: number; // Tweets without a gold label or whose analysis failed
+}
+
+// A saved evaluation of one provider/model against a labeled dataset
+export interface EvaluationRun {
+  id: string;
+  datasetName: string;
+  provider: string;
+  model: string;
+  createdAt: string;
+  report: EvaluationReport;
+}
+
+// --- PROVIDER COMPARISON ---
+
+export interface ProviderRunInfo {
+  id: string;
+  label: string;
+  model: string;
+}
+
+// One provider's result for a tweet in a comparison run
+export type ProviderOutcome = Pick<TweetData, 'analysis' | 'error'>;
+
+// A tweet analyzed by several providers; `results` is keyed by provider id
+export type ComparedTweet = Omit<TweetData, 'analysis' | 'error'> & {
+  results: Record<string, ProviderOutcome>;
+};
+
+export interface ComparisonResult {
+  providers: ProviderRunInfo[];
+  tweets: ComparedTweet[];
+}
+
+// Tweets generated for one topic; a run that stopped short says how many are missing and why
+export interface GenerationResult {
+  tweets: TweetData[];
+  missing: number; // Requested tweets that were not generated
+  error?: string; // Set when a later batch failed or came back empty
+}
+
+// Agreement between two providers over the tweets both analyzed successfully
+export interface PairwiseAgreement {
+  providerA: string;
+  providerB: string;
+  compared: number;
+  agreement: number; // Observed agreement rate, 0 to 1
+  kappa: number; // Cohen's kappa, -1 to 1
+}
+
+// Maps columns of an imported CSV/JSONL file onto TweetData fields
+export interface ColumnMapping {
+  text: string;
+  author?: string;
+  timestamp?: string;
+  label?: string;
+  topic?: string; // e.g. a brand or airline column, for multi-topic comparison
+}
+
+export interface ParsedDataset {
+  fileName: string;
+  columns: string[];
+  rows: Record<string, string>[];
+  suggestedMapping: ColumnMapping;
+}
+
+// Where the tweets of a dataset run came from: a generated topic or an imported file
+export interface DatasetSource {
+  kind: 'topic' | 'file';
+  name: string;
+}
+
+// A saved dataset run, persisted in IndexedDB
+export interface AnalysisSession {
+  id: string;
+  name: string;
+  source: DatasetSource;
+  provider: string; // Provider id used for the run
+  model: string;
+  createdAt: string;
+  tweets: TweetData[];
+}
+
+export type SessionSummary = Omit<AnalysisSession, 'tweets'> & { tweetCount: number };
+
+// A provider's raw analyze response, persisted in IndexedDB and keyed by a hash of
+// (provider, model, prompt version, label taxonomy, text)
+export interface CachedResponse {
+  id: string;
+  provider: string;
+  model: string;
+  promptVersion: number;
+  createdAt: string;
+  response: unknown;
+}
+
+// Response cache counters for the current page session; every hit is an API call saved
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+}
+
 // Define specific chart data types for Recharts
 export interface PieChartData {
   name: string;
@@ -35,7 +304,48 @@ export interface PieChartData {
   color: string;
 }
 
-export interface BarChartData {
-  name: string;
-  count: number;
+// Per-provider choices from the settings panel; unset fields fall back to the provider's defaults
+export interface ProviderSettings {
+  model?: string;
+  baseUrl?: string; // Only for providers with a configurable endpoint
+}
+
+// How key-holding providers are reached: directly from the browser, or through the API proxy server
+export type ProviderTransport = 'direct' | 'proxy';
+
+// Runtime settings, persisted in localStorage. API keys are kept separately, in sessionStorage
+export interface RuntimeSettings {
+  providers: Record<string, ProviderSettings>;
+  transport: ProviderTransport;
+  proxyUrl: string; // Base URL of the proxy's /api routes; same origin when empty
+  temperature: number;
+  maxTokens: number; // Per response
+  generationBatchSize: number; // Generated tweets requested per model call
+  taxonomy: LabelTaxonomy;
+}
+
+// Settings of the seeded synthetic generator used by Demo Mode; the same settings always give the same tweets
+export interface SyntheticConfig {
+  seed: number;
+  sentimentMix: Record<SentimentType, number>; // Relative weights, e.g. 40 / 30 / 30
+  sarcasmRate: number; // Share (0-1) of negative tweets voiced as sarcastic praise
+  noiseRate: number; // Chance (0-1) that a tweet gets a typo, stretched word, lowercase or stray hashtag
+  vocabulary: string[]; // Features the tweets talk about, e.g. "battery", "price"
+  spreadHours: number; // Without a date range, timestamps fall within this many hours before the anchor
+  anchor: string; // ISO end of that window; fixed rather than "now" so a seed always gives the same timestamps
+}
+
+export type TrendGranularity = 'hour' | 'day';
+
+export interface DateRange {
+  start: string; // ISO timestamps
+  end: string;
+}
+
+// One time bucket of the label trend; shares are percentages of the bucket's tweets, keyed by label
+export interface TrendPoint {
+  bucket: string; // ISO start of the bucket
+  total: number;
+  shares: Record<string, number>;
+  averages: Record<string, number>; // Rolling averages over the trailing window of buckets
 }
\ No newline at end of file
@@ -5,20 +5,24 @@ export default defineConfig(({ mode }) => {
   // Load env file based on `mode` in the current working directory.
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
   const env = loadEnv(mode, process.cwd(), '');
-  
-  // Robustly find the API Key:
-  // 1. Check API_KEY (standard for this app)
-  // 2. Check VITE_API_KEY (standard Vite convention, in case user added it that way)
-  // 3. Fallback to empty string
-  const apiKey = env.API_KEY || env.VITE_API_KEY || '';
-  const groqApiKey = env.GROQ_API_KEY || env.VITE_GROQ_API_KEY || '';
+
+  // Optional defaults for the OpenAI-compatible local provider (Ollama / llama.cpp).
+  // API keys are deliberately not read here: anything in `define` ships in the public bundle,
+  // so keys are entered at runtime in the settings panel instead.
+  const localBaseUrl = env.LOCAL_LLM_BASE_URL || env.VITE_LOCAL_LLM_BASE_URL || '';
+  const localModel = env.LOCAL_LLM_MODEL || env.VITE_LOCAL_LLM_MODEL || '';
 
   return {
     plugins: [react()],
     define: {
-      // Polyfill process.env.API_KEY for the browser build
-      'process.env.API_KEY': JSON.stringify(apiKey),
-      'process.env.GROQ_API_KEY': JSON.stringify(groqApiKey)
+      'process.env.LOCAL_LLM_BASE_URL': JSON.stringify(localBaseUrl),
+      'process.env.LOCAL_LLM_MODEL': JSON.stringify(localModel)
+    },
+    server: {
+      // The API proxy server (npm run server); lets the proxy transport use same-origin /api URLs
+      proxy: {
+        '/api': `http://localhost:${env.PROXY_PORT || 8787}`
+      }
     },
     build: {
       // Increase the warning limit to 1000kb (1MB) to handle large libraries like Recharts